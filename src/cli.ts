@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Command-line entry point (`bin` in package.json)
+ *
+ * @packageDocumentation
+ */
+
+import { runCli } from "./core/cli";
+
+runCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
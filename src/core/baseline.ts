@@ -0,0 +1,204 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Scan baselines
+ *
+ * A baseline records accepted findings (test fixtures, revoked sample
+ * keys) by file path and keyed hash of the token, so later scans only
+ * report new secrets. It never contains a secret or its plain hash.
+ *
+ * @module core/baseline
+ */
+
+import type {
+  BaselineComparison,
+  BaselineEntry,
+  ScanBaseline,
+  ScanFinding,
+  ScanResult,
+} from "../types";
+import { fingerprintToken } from "./fingerprint";
+import {
+  BASELINE_HASH_LENGTH,
+  BASELINE_KEY_CHECK,
+  BASELINE_VERSION,
+} from "../utils/constants";
+
+// ============================================================================
+// BASELINE FUNCTIONS
+// ============================================================================
+
+/**
+ * Create a baseline from a scan result
+ *
+ * @param result - Result of `scanPaths()` run with `hashKey`
+ * @param key - The same `hashKey`
+ * @returns Baseline to store as JSON
+ * @throws Error if a finding has no hash (scanned without `hashKey`)
+ *
+ * @example
+ * ```typescript
+ * const key = process.env.MASK_TOKEN_BASELINE_KEY!;
+ * const result = await scanPaths(['.'], { hashKey: key });
+ * await writeFile('.masktoken-baseline.json', JSON.stringify(createBaseline(result, key), null, 2));
+ * ```
+ */
+export function createBaseline(
+  result: ScanResult,
+  key: string | Uint8Array,
+): ScanBaseline {
+  return {
+    version: BASELINE_VERSION,
+    keyCheck: toKeyCheck(key),
+    entries: result.findings.map((finding) => ({
+      file: finding.file,
+      hash: requireHash(finding),
+      type: finding.type,
+      line: finding.line,
+    })),
+  };
+}
+
+/**
+ * Compare a scan result with a baseline
+ *
+ * Findings match entries by file and hash, so known tokens stay
+ * suppressed when lines move. A token that appears more often than the
+ * baseline recorded is reported as new.
+ *
+ * @param result - Result of `scanPaths()` run with the baseline's key
+ * @param baseline - Baseline from `createBaseline()` or `parseBaseline()`
+ * @param key - The `hashKey` the scan used
+ * @returns New and known findings, and entries no longer found
+ * @throws Error if the key does not match the baseline, or a finding
+ *   has no hash
+ *
+ * @example
+ * ```typescript
+ * const { newFindings, removed } = compareBaseline(result, baseline, key);
+ * if (newFindings.length > 0) process.exitCode = 1;
+ * ```
+ */
+export function compareBaseline(
+  result: ScanResult,
+  baseline: ScanBaseline,
+  key: string | Uint8Array,
+): BaselineComparison {
+  if (toKeyCheck(key) !== baseline.keyCheck) {
+    throw new Error("Baseline was created with a different key");
+  }
+
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of baseline.entries) {
+    const id = toEntryId(entry.file, entry.hash);
+    remaining.set(id, [...(remaining.get(id) ?? []), entry]);
+  }
+
+  const comparison: BaselineComparison = {
+    newFindings: [],
+    knownFindings: [],
+    removed: [],
+  };
+
+  for (const finding of result.findings) {
+    const matches = remaining.get(toEntryId(finding.file, requireHash(finding)));
+    if (matches && matches.length > 0) {
+      matches.shift();
+      comparison.knownFindings.push(finding);
+    } else {
+      comparison.newFindings.push(finding);
+    }
+  }
+
+  for (const entries of remaining.values()) {
+    comparison.removed.push(...entries);
+  }
+
+  return comparison;
+}
+
+/**
+ * Parse and check a baseline file
+ *
+ * @param json - File content
+ * @returns The baseline
+ * @throws Error if the content is not a valid baseline
+ *
+ * @example
+ * ```typescript
+ * const baseline = parseBaseline(await readFile('.masktoken-baseline.json', 'utf8'));
+ * ```
+ */
+export function parseBaseline(json: string): ScanBaseline {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid baseline: not JSON");
+  }
+
+  const baseline = value as Partial<ScanBaseline> | null;
+  if (typeof baseline !== "object" || baseline === null) {
+    throw new Error("Invalid baseline: expected an object");
+  }
+  if (baseline.version !== BASELINE_VERSION) {
+    throw new Error(
+      `Invalid baseline: unsupported version ${String(baseline.version)}`,
+    );
+  }
+  if (typeof baseline.keyCheck !== "string" || !Array.isArray(baseline.entries)) {
+    throw new Error("Invalid baseline: missing keyCheck or entries");
+  }
+
+  baseline.entries.forEach((entry, index) => {
+    if (
+      typeof entry?.file !== "string" ||
+      typeof entry.hash !== "string" ||
+      typeof entry.type !== "string" ||
+      typeof entry.line !== "number"
+    ) {
+      throw new Error(`Invalid baseline: malformed entry ${index}`);
+    }
+  });
+
+  return baseline as ScanBaseline;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Hash of a fixed value, to tell whether a key matches the baseline
+ *
+ * @internal
+ */
+function toKeyCheck(key: string | Uint8Array): string {
+  return fingerprintToken(BASELINE_KEY_CHECK, {
+    key,
+    length: BASELINE_HASH_LENGTH,
+  });
+}
+
+/**
+ * Key of a finding or entry in the baseline
+ *
+ * @internal
+ */
+function toEntryId(file: string, hash: string): string {
+  return `${file}\u0000${hash}`;
+}
+
+/**
+ * Get the hash of a finding
+ *
+ * @internal
+ */
+function requireHash(finding: ScanFinding): string {
+  if (finding.hash === undefined) {
+    throw new Error(
+      `Finding at ${finding.file}:${finding.line} has no hash; scan with hashKey to use a baseline`,
+    );
+  }
+  return finding.hash;
+}
@@ -0,0 +1,481 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Command-line interface
+ *
+ * Commands:
+ * - `mask-token [token]`: mask a single value
+ * - `mask-token redact`: filter stdin to stdout, masking detected tokens
+ * - `mask-token detect [token]`: print detection metadata as JSON
+ * - `mask-token validate [token]`: print validation results as JSON,
+ *   exiting with 1 above a risk threshold
+ * - `mask-token scan <paths...>`: report tokens in files (or in the
+ *   lines added by staged changes or a commit range), exiting with 1
+ *   when a finding reaches a confidence threshold
+ *
+ * A token that is not given as an argument is read from stdin, which
+ * keeps it out of the process list and shell history.
+ *
+ * @module core/cli
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { StringDecoder } from "node:string_decoder";
+import type { MaskOptions, ScanReportFormat } from "../types";
+import { mask } from "./masker";
+import { validateInput } from "./validator";
+import { createRedactionStream } from "./node-stream";
+import { scanPaths } from "./scanner";
+import { scanCommitRange, scanStagedChanges } from "./git-scanner";
+import { formatScanReport } from "./scan-reporters";
+import { compareBaseline, createBaseline, parseBaseline } from "./baseline";
+import { detectPrefix } from "../presets/registry";
+import { isSecurityLevel } from "../types";
+import {
+  DEFAULT_MIN_CONFIDENCE,
+  PACKAGE_NAME,
+  RISK_SCORE_THRESHOLDS,
+  SCAN_REPORT_FORMATS,
+  VERSION,
+} from "../utils/constants";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Streams the CLI reads from and writes to
+ *
+ * @internal
+ */
+export interface CliIO {
+  stdin: NodeJS.ReadableStream;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Parsed command-line flags
+ *
+ * @internal
+ */
+type CliValues = Record<string, string | boolean | undefined>;
+
+/**
+ * A CLI command: resolves to the process exit code
+ *
+ * @internal
+ */
+type CliCommand = (
+  positionals: string[],
+  values: CliValues,
+  io: CliIO,
+) => Promise<number>;
+
+/**
+ * Error for invalid usage (exit code 2)
+ *
+ * @internal
+ */
+class UsageError extends Error {}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Exit codes
+ *
+ * @internal
+ */
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Environment variable holding the baseline hash key
+ *
+ * @internal
+ */
+const BASELINE_KEY_ENV = "MASK_TOKEN_BASELINE_KEY";
+
+/**
+ * Flags accepted by every command
+ *
+ * @internal
+ */
+const CLI_OPTIONS = {
+  preset: { type: "string", short: "p" },
+  "show-head": { type: "string" },
+  "show-tail": { type: "string" },
+  "mask-char": { type: "string" },
+  threshold: { type: "string" },
+  "min-confidence": { type: "string" },
+  "fail-confidence": { type: "string" },
+  format: { type: "string", short: "f" },
+  baseline: { type: "string" },
+  "write-baseline": { type: "string" },
+  staged: { type: "boolean" },
+  commits: { type: "string" },
+  help: { type: "boolean", short: "h" },
+  version: { type: "boolean", short: "v" },
+} as const;
+
+/**
+ * Usage text
+ *
+ * @internal
+ */
+const USAGE = `Usage: ${PACKAGE_NAME} [command] [token] [options]
+
+Commands:
+  [token]              Mask a single value (read from stdin if omitted)
+  redact               Copy stdin to stdout, masking every detected token
+  detect [token]       Print the detected token type as JSON
+  validate [token]     Print validation results as JSON; exit 1 if the
+                       risk score is above --threshold
+  scan <paths...>      Report tokens in files and directories (honours
+                       .gitignore and .masktokenignore, skips binaries);
+                       exit 1 if a finding reaches --fail-confidence
+  scan --staged        Scan the lines added by the staged changes
+  scan --commits <range>
+                       Scan the lines added by each commit in a range
+                       (e.g. origin/main..HEAD)
+
+Options:
+  -p, --preset <name>  strict | balanced | lenient | ui
+  --show-head <n>      Characters to show from the start
+  --show-tail <n>      Characters to show from the end
+  --mask-char <char>   Masking character
+  --threshold <n>      Highest accepted risk score for validate (default: ${RISK_SCORE_THRESHOLDS.MEDIUM})
+  --min-confidence <n> Lowest confidence (0-1) reported by scan (default: ${DEFAULT_MIN_CONFIDENCE})
+  --fail-confidence <n>
+                       Lowest confidence (0-1) that makes scan fail
+                       (default: --min-confidence)
+  -f, --format <name>  Scan report format: table | ndjson | sarif | junit
+                       (default: table)
+  --baseline <file>    Only report scan findings missing from this baseline
+  --write-baseline <file>
+                       Record the scan findings as a baseline and exit 0
+                       (both baseline flags need ${BASELINE_KEY_ENV})
+  -h, --help           Show this help
+  -v, --version        Show the version
+`;
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Run the CLI
+ *
+ * @param argv - Arguments after the executable and script path
+ * @param io - Streams to use (defaults to the process streams)
+ * @returns Exit code: 0 on success, 1 when `validate` or `scan` fails,
+ *   2 on invalid usage
+ *
+ * @example
+ * ```typescript
+ * process.exitCode = await runCli(process.argv.slice(2));
+ * ```
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr },
+): Promise<number> {
+  try {
+    const { positionals, values } = parseArgs({
+      args: argv,
+      options: CLI_OPTIONS,
+      allowPositionals: true,
+    });
+
+    if (values.help) {
+      io.stdout.write(USAGE);
+      return EXIT_OK;
+    }
+    if (values.version) {
+      io.stdout.write(`${VERSION}\n`);
+      return EXIT_OK;
+    }
+
+    const [name, ...rest] = positionals;
+    const command = Object.prototype.hasOwnProperty.call(COMMANDS, name)
+      ? COMMANDS[name]
+      : null;
+
+    return command
+      ? await command(rest, values, io)
+      : await maskCommand(positionals, values, io);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.stderr.write(`${PACKAGE_NAME}: ${message}\n`);
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      io.stderr.write(`Run '${PACKAGE_NAME} --help' for usage.\n`);
+      return EXIT_USAGE;
+    }
+    return EXIT_FAILURE;
+  }
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * `mask-token [token]`
+ *
+ * @internal
+ */
+const maskCommand: CliCommand = async (positionals, values, io) => {
+  const token = await readToken(positionals, io);
+  io.stdout.write(`${mask(token, toMaskOptions(values)) as string}\n`);
+  return EXIT_OK;
+};
+
+/**
+ * Subcommands by name
+ *
+ * @internal
+ */
+const COMMANDS: Record<string, CliCommand> = {
+  async redact(positionals, values, io) {
+    if (positionals.length > 0) {
+      throw new UsageError("redact reads from stdin and takes no arguments");
+    }
+
+    const stream = io.stdin.pipe(createRedactionStream(toMaskOptions(values)));
+    for await (const chunk of stream) {
+      if (!io.stdout.write(String(chunk))) {
+        await new Promise((resolve) => io.stdout.once("drain", resolve));
+      }
+    }
+    return EXIT_OK;
+  },
+
+  async detect(positionals, values, io) {
+    const token = await readToken(positionals, io);
+    io.stdout.write(`${JSON.stringify(detectPrefix(token), null, 2)}\n`);
+    return EXIT_OK;
+  },
+
+  async validate(positionals, values, io) {
+    const threshold = parseInteger(
+      values.threshold,
+      "--threshold",
+      RISK_SCORE_THRESHOLDS.MEDIUM,
+    );
+    const token = await readToken(positionals, io);
+    const result = validateInput(token);
+
+    io.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    return result.riskScore > threshold ? EXIT_FAILURE : EXIT_OK;
+  },
+
+  async scan(positionals, values, io) {
+    const gitSources = [values.staged, values.commits].filter(
+      (value) => value !== undefined,
+    ).length;
+    if (gitSources > 1) {
+      throw new UsageError("--staged and --commits cannot be combined");
+    }
+    if (gitSources === 1 && positionals.length > 0) {
+      throw new UsageError("paths cannot be combined with --staged or --commits");
+    }
+    if (gitSources === 0 && positionals.length === 0) {
+      throw new UsageError("scan needs at least one path");
+    }
+
+    const minConfidence = parseConfidence(
+      values["min-confidence"],
+      "--min-confidence",
+      DEFAULT_MIN_CONFIDENCE,
+    );
+    const failConfidence = parseConfidence(
+      values["fail-confidence"],
+      "--fail-confidence",
+      minConfidence,
+    );
+    const format = (values.format ?? "table") as ScanReportFormat;
+    if (!SCAN_REPORT_FORMATS.includes(format)) {
+      throw new UsageError(`unknown format: ${String(format)}`);
+    }
+
+    const baselinePath = values.baseline;
+    const writeBaselinePath = values["write-baseline"];
+    if (baselinePath !== undefined && writeBaselinePath !== undefined) {
+      throw new UsageError("--baseline and --write-baseline cannot be combined");
+    }
+
+    let hashKey: string | undefined;
+    if (baselinePath !== undefined || writeBaselinePath !== undefined) {
+      hashKey = (io.env ?? process.env)[BASELINE_KEY_ENV];
+      if (!hashKey) {
+        throw new UsageError(`set ${BASELINE_KEY_ENV} to use a baseline`);
+      }
+    }
+
+    const scanOptions = { ...toMaskOptions(values), minConfidence, hashKey };
+    const result = values.staged
+      ? await scanStagedChanges(scanOptions)
+      : typeof values.commits === "string"
+        ? await scanCommitRange(values.commits, scanOptions)
+        : await scanPaths(positionals, scanOptions);
+
+    if (typeof writeBaselinePath === "string" && hashKey) {
+      const baseline = createBaseline(result, hashKey);
+      await writeFile(writeBaselinePath, `${JSON.stringify(baseline, null, 2)}\n`);
+      io.stderr.write(
+        `Wrote ${baseline.entries.length} baseline entry(ies) to ${writeBaselinePath}\n`,
+      );
+      return EXIT_OK;
+    }
+
+    const summary = [`${result.filesScanned} file(s) scanned`];
+    if (result.suppressed > 0) {
+      summary.push(`${result.suppressed} suppressed`);
+    }
+
+    let reported = result;
+    if (typeof baselinePath === "string" && hashKey) {
+      const baseline = parseBaseline(await readFile(baselinePath, "utf8"));
+      const { newFindings, knownFindings, removed } = compareBaseline(
+        result,
+        baseline,
+        hashKey,
+      );
+
+      for (const entry of removed) {
+        io.stderr.write(
+          `Baseline entry no longer found: ${entry.file} (${entry.type}, line ${entry.line})\n`,
+        );
+      }
+      summary.push(`${knownFindings.length} in baseline`);
+      if (removed.length > 0) {
+        summary.push(`${removed.length} baseline entry(ies) gone`);
+      }
+      reported = { ...result, findings: newFindings };
+    }
+
+    const { findings } = reported;
+    io.stdout.write(formatScanReport(reported, format));
+    io.stderr.write(`${findings.length} finding(s); ${summary.join(", ")}\n`);
+
+    return findings.some((finding) => finding.confidence >= failConfidence)
+      ? EXIT_FAILURE
+      : EXIT_OK;
+  },
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Take the token from the arguments, or read it from stdin
+ *
+ * A single trailing line break (from `echo` or a file) is removed.
+ *
+ * @internal
+ */
+async function readToken(positionals: string[], io: CliIO): Promise<string> {
+  if (positionals.length > 1) {
+    throw new UsageError("expected a single token");
+  }
+  if (positionals.length === 1) {
+    return positionals[0];
+  }
+
+  const decoder = new StringDecoder("utf8");
+  let input = "";
+  for await (const chunk of io.stdin) {
+    input += typeof chunk === "string" ? chunk : decoder.write(chunk as Buffer);
+  }
+  input = (input + decoder.end()).replace(/\r?\n$/, "");
+
+  if (input.length === 0) {
+    throw new UsageError("no token given");
+  }
+  return input;
+}
+
+/**
+ * Build masking options from the flags
+ *
+ * @internal
+ */
+function toMaskOptions(values: CliValues): MaskOptions {
+  const options: MaskOptions = {};
+
+  if (values.preset !== undefined) {
+    if (!isSecurityLevel(values.preset)) {
+      throw new UsageError(`unknown preset: ${String(values.preset)}`);
+    }
+    options.preset = values.preset;
+  }
+  if (values["show-head"] !== undefined) {
+    options.showHead = parseInteger(values["show-head"], "--show-head");
+  }
+  if (values["show-tail"] !== undefined) {
+    options.showTail = parseInteger(values["show-tail"], "--show-tail");
+  }
+  if (values["mask-char"] !== undefined) {
+    if (values["mask-char"] === "" || typeof values["mask-char"] !== "string") {
+      throw new UsageError("--mask-char must not be empty");
+    }
+    options.maskChar = values["mask-char"];
+  }
+
+  return options;
+}
+
+/**
+ * Parse a non-negative integer flag
+ *
+ * @internal
+ */
+function parseInteger(
+  value: string | boolean | undefined,
+  flag: string,
+  fallback = 0,
+): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new UsageError(`${flag} must be a non-negative integer`);
+  }
+  return Number(value);
+}
+
+/**
+ * Parse a confidence flag (a number from 0 to 1)
+ *
+ * @internal
+ */
+function parseConfidence(
+  value: string | boolean | undefined,
+  flag: string,
+  fallback: number,
+): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const confidence = typeof value === "string" && value !== "" ? Number(value) : NaN;
+  if (!(confidence >= 0 && confidence <= 1)) {
+    throw new UsageError(`${flag} must be a number from 0 to 1`);
+  }
+  return confidence;
+}
+
+/**
+ * Check for the errors `parseArgs` throws on unknown or malformed flags
+ *
+ * @internal
+ */
+function isParseArgsError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && code.startsWith("ERR_PARSE_ARGS_");
+}
@@ -0,0 +1,316 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Connection string and URL layouts (`url` mode)
+ *
+ * Splits database URLs, service URIs and ADO.NET/JDBC `Key=Value;`
+ * strings into readable parts (scheme, host, port, path, parameter
+ * names) and credential values that must be hidden.
+ *
+ * @module core/connection-string
+ */
+
+import type { ApiKeySegment } from "./apikey-layout";
+import { SENSITIVE_CONNECTION_KEYS } from "../utils/constants";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A connection string split into readable and secret segments
+ *
+ * @internal
+ */
+export interface ConnectionStringLayout {
+  /**
+   * `url` for `scheme://...` URIs (including `jdbc:` URLs),
+   * `keyvalue` for ADO.NET-style `Key=Value;` strings
+   */
+  format: "url" | "keyvalue";
+
+  /**
+   * Whether any segment holds a credential
+   */
+  hasCredentials: boolean;
+
+  /**
+   * Segments in order; joined they reproduce the input
+   */
+  segments: ApiKeySegment[];
+}
+
+// ============================================================================
+// PATTERNS
+// ============================================================================
+
+/**
+ * `scheme://authority path ?query #fragment`, with an optional `jdbc:`
+ * prefix on the scheme
+ *
+ * Per RFC 3986 the authority ends at the first `/`, `?` or `#`, so
+ * passwords containing those characters must be percent-encoded.
+ */
+const URL_PATTERN =
+  /^((?:jdbc:)?[A-Za-z][A-Za-z0-9+.-]*:\/\/)([^/?#]*)([^?#]*)(\?[^#]*)?(#.*)?$/;
+
+/**
+ * Schemes whose bare userinfo (`https://<token>@host`) is a credential
+ * rather than a user name, as in Git remote URLs
+ */
+const TOKEN_USERINFO_SCHEMES = /^(?:git\+)?(?:https?|wss?):\/\/$/i;
+
+/**
+ * One `Key=Value` pair of an ADO.NET/JDBC connection string
+ *
+ * Values may be quoted with `"`, `'` or ODBC-style `{}`, with the quote
+ * doubled to escape it.
+ */
+const KEY_VALUE_PAIR =
+  /(\s*([A-Za-z][A-Za-z0-9 _.-]*?)\s*=\s*)("(?:[^"]|"")*"|'(?:[^']|'')*'|\{(?:[^}]|\}\})*\}|[^;]*?)(\s*(?:;|$))/y;
+
+// ============================================================================
+// LAYOUT DETECTION
+// ============================================================================
+
+/**
+ * Split a URL or connection string into readable and secret segments
+ *
+ * Hidden: the userinfo password, values of sensitive query/fragment
+ * parameters and connection-string keys (`password`, `token`, `sig`,
+ * `X-Amz-Signature`, `AccountKey`, ...). For http(s) URLs, userinfo
+ * without a password is treated as a token (`https://<token>@github.com`).
+ *
+ * @param input - URL or `Key=Value;` connection string
+ * @returns Layout, or null if the input is neither. A single
+ *   `Key=Value` pair only counts as a connection string if its key is
+ *   sensitive.
+ *
+ * @example
+ * ```typescript
+ * getConnectionStringLayout('postgres://app:p4ss@db:5432/app?sslmode=require');
+ * // {
+ * //   format: 'url',
+ * //   hasCredentials: true,
+ * //   segments: [
+ * //     { text: 'postgres://', visibility: 'visible' },
+ * //     { text: 'app:', visibility: 'visible' },
+ * //     { text: 'p4ss', visibility: 'hidden' },
+ * //     { text: '@db:5432/app?sslmode=require', visibility: 'visible' }
+ * //   ]
+ * // }
+ * ```
+ */
+export function getConnectionStringLayout(
+  input: string,
+): ConnectionStringLayout | null {
+  if (!input || typeof input !== "string") {
+    return null;
+  }
+
+  return parseUrl(input) ?? parseKeyValue(input);
+}
+
+/**
+ * Split a `scheme://` URL
+ *
+ * @internal
+ */
+function parseUrl(input: string): ConnectionStringLayout | null {
+  const match = URL_PATTERN.exec(input);
+  if (!match) {
+    return null;
+  }
+
+  const [, scheme, authority, path, query = "", fragment = ""] = match;
+  const builder = createSegmentBuilder();
+  builder.add(scheme, "visible");
+
+  // Userinfo ends at the last '@', so an unencoded '@' in a password still works
+  const at = authority.lastIndexOf("@");
+  if (at !== -1) {
+    const userinfo = authority.slice(0, at);
+    const colon = userinfo.indexOf(":");
+    if (colon !== -1) {
+      builder.add(userinfo.slice(0, colon + 1), "visible");
+      builder.add(userinfo.slice(colon + 1), "hidden");
+    } else {
+      builder.add(
+        userinfo,
+        TOKEN_USERINFO_SCHEMES.test(scheme) ? "masked" : "visible",
+      );
+    }
+    builder.add("@", "visible");
+  }
+
+  // JDBC SQL Server style `host:port;key=value;...` properties
+  const hostPort = authority.slice(at + 1);
+  const semicolon = hostPort.indexOf(";");
+  if (semicolon === -1) {
+    builder.add(hostPort, "visible");
+  } else {
+    builder.add(hostPort.slice(0, semicolon + 1), "visible");
+    const properties = splitKeyValuePairs(hostPort.slice(semicolon + 1));
+    if (!properties) {
+      return null;
+    }
+    properties.forEach((segment) => builder.add(segment.text, segment.visibility));
+  }
+
+  builder.add(path, "visible");
+  addQuery(builder, query);
+  addQuery(builder, fragment);
+
+  return { format: "url", ...builder.build() };
+}
+
+/**
+ * Split an ADO.NET/JDBC `Key=Value;` connection string
+ *
+ * @internal
+ */
+function parseKeyValue(input: string): ConnectionStringLayout | null {
+  const segments = splitKeyValuePairs(input);
+  if (!segments) {
+    return null;
+  }
+
+  const builder = createSegmentBuilder();
+  segments.forEach((segment) => builder.add(segment.text, segment.visibility));
+  const layout = builder.build();
+
+  // A lone non-sensitive pair is more likely a base64 value ending in '='
+  const pairs = segments.length / 3;
+  if (pairs < 2 && !layout.hasCredentials) {
+    return null;
+  }
+
+  return { format: "keyvalue", ...layout };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Split `Key=Value;` pairs, hiding the values of sensitive keys
+ *
+ * @returns Key, value and separator segments for each pair, or null if
+ *   the input is not made of pairs
+ *
+ * @internal
+ */
+function splitKeyValuePairs(input: string): ApiKeySegment[] | null {
+  const segments: ApiKeySegment[] = [];
+  const pattern = new RegExp(KEY_VALUE_PAIR);
+
+  while (pattern.lastIndex < input.length) {
+    const match = pattern.exec(input);
+    if (!match) {
+      return null;
+    }
+
+    const [, key, name, value, separator] = match;
+    segments.push(
+      { text: key, visibility: "visible" },
+      { text: value, visibility: isSensitiveKey(name) ? "hidden" : "visible" },
+      { text: separator, visibility: "visible" },
+    );
+  }
+
+  return segments.length > 0 ? segments : null;
+}
+
+/**
+ * Add a `?query` or `#fragment`, hiding the values of sensitive
+ * parameters (`#access_token=...` from OAuth redirects included)
+ *
+ * @internal
+ */
+function addQuery(
+  builder: ReturnType<typeof createSegmentBuilder>,
+  query: string,
+): void {
+  if (!query) {
+    return;
+  }
+
+  builder.add(query[0], "visible");
+  query
+    .slice(1)
+    .split("&")
+    .forEach((parameter, index) => {
+      if (index > 0) {
+        builder.add("&", "visible");
+      }
+
+      const equals = parameter.indexOf("=");
+      if (equals === -1) {
+        builder.add(parameter, "visible");
+        return;
+      }
+
+      const name = parameter.slice(0, equals);
+      builder.add(parameter.slice(0, equals + 1), "visible");
+      builder.add(
+        parameter.slice(equals + 1),
+        isSensitiveKey(decodeParameterName(name)) ? "hidden" : "visible",
+      );
+    });
+}
+
+/**
+ * Decode a percent-encoded query parameter name
+ *
+ * @internal
+ */
+function decodeParameterName(name: string): string {
+  try {
+    return decodeURIComponent(name.replace(/\+/g, " "));
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * Check a parameter or connection-string key against
+ * `SENSITIVE_CONNECTION_KEYS`
+ *
+ * @internal
+ */
+function isSensitiveKey(name: string): boolean {
+  const normalized = name.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return SENSITIVE_CONNECTION_KEYS.includes(normalized);
+}
+
+/**
+ * Collect segments, merging adjacent visible ones and dropping empty
+ * secrets (`user:@host` has no password to hide)
+ *
+ * @internal
+ */
+function createSegmentBuilder() {
+  const segments: ApiKeySegment[] = [];
+
+  return {
+    add(text: string, visibility: ApiKeySegment["visibility"]): void {
+      if (text.length === 0) {
+        return;
+      }
+
+      const last = segments[segments.length - 1];
+      if (visibility === "visible" && last?.visibility === "visible") {
+        last.text += text;
+      } else {
+        segments.push({ text, visibility });
+      }
+    },
+
+    build(): Pick<ConnectionStringLayout, "hasCredentials" | "segments"> {
+      return {
+        hasCredentials: segments.some((segment) => segment.visibility !== "visible"),
+        segments,
+      };
+    },
+  };
+}
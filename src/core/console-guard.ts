@@ -0,0 +1,298 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Global console redaction guard
+ *
+ * Patches `console.*` (and optionally `process.stdout.write`) so every
+ * line is redacted before it is printed. Meant for scripts and CLIs
+ * that log with plain `console` calls.
+ *
+ * @module core/console-guard
+ */
+
+import { format } from "node:util";
+import type {
+  ConsoleGuard,
+  ConsoleGuardOptions,
+  ConsoleMethod,
+  RedactObjectOptions,
+} from "../types";
+import { redactText } from "./redactor";
+import { redactObject } from "./object-redactor";
+import { createChunkRedactor } from "./stream-redactor";
+
+/**
+ * State of the installed guard
+ *
+ * @internal
+ */
+interface GuardState {
+  /**
+   * Installations not yet released
+   */
+  installs: number;
+
+  /**
+   * Set while a line is redacted or printed, so output produced on the
+   * way (warnings from `mask()`, `console.log` writing to stdout) goes
+   * straight to the original functions
+   */
+  active: boolean;
+
+  /**
+   * Put the original functions back
+   */
+  restore: () => void;
+}
+
+/**
+ * Global slot for the guard state, shared by every copy of the library
+ * loaded in the process (ESM and CommonJS builds)
+ *
+ * @internal
+ */
+const GUARD_STATE_KEY = Symbol.for("mask-token.consoleGuard");
+
+/**
+ * Console methods patched by default
+ *
+ * @internal
+ */
+const DEFAULT_CONSOLE_METHODS: readonly ConsoleMethod[] = [
+  "log",
+  "info",
+  "warn",
+  "error",
+  "debug",
+];
+
+/**
+ * Milliseconds without stdout writes after which held-back text is printed
+ *
+ * @internal
+ */
+const STDOUT_FLUSH_DELAY = 50;
+
+// ============================================================================
+// INSTALLATION
+// ============================================================================
+
+/**
+ * Redact everything printed through `console`
+ *
+ * Arguments are formatted like `util.format()` (objects are redacted
+ * with `redactObject()` first), then tokens in the line are masked with
+ * `redactText()` and the line is passed to the original method.
+ *
+ * Installing again while a guard is active shares that guard and its
+ * options; the console is restored once every handle is uninstalled.
+ *
+ * @param options - Which methods to patch, allow-list and masking options
+ * @returns Handle with `uninstall()`
+ *
+ * @example
+ * ```typescript
+ * const guard = installConsoleGuard({ preset: 'strict' });
+ *
+ * console.log('token:', process.env.GITHUB_TOKEN);
+ * // token: ghp_••••••••••••8JKK
+ * console.log({ password: 'hunter2-correct-horse' });
+ * // { password: '••••••••••••orse' }
+ *
+ * guard.uninstall();
+ * ```
+ */
+export function installConsoleGuard(
+  options: ConsoleGuardOptions = {},
+): ConsoleGuard {
+  const slot = globalThis as unknown as Record<symbol, GuardState | undefined>;
+  const state = slot[GUARD_STATE_KEY] ?? (slot[GUARD_STATE_KEY] = patch(options));
+  state.installs++;
+
+  let installed = true;
+  return {
+    uninstall() {
+      if (!installed) {
+        return;
+      }
+      installed = false;
+
+      if (--state.installs === 0) {
+        state.restore();
+        slot[GUARD_STATE_KEY] = undefined;
+      }
+    },
+  };
+}
+
+// ============================================================================
+// PATCHING
+// ============================================================================
+
+/**
+ * Replace the console methods (and stdout writer) with redacting wrappers
+ *
+ * @internal
+ */
+function patch(options: ConsoleGuardOptions): GuardState {
+  const {
+    methods = DEFAULT_CONSOLE_METHODS,
+    stdout = false,
+    allow = [],
+    ...redactOptions
+  } = options;
+
+  const state: GuardState = { installs: 0, active: false, restore: () => {} };
+  const redactLine = createLineRedactor(redactOptions, allow);
+  const restores: Array<() => void> = [];
+  let flushStdout = () => {};
+
+  for (const method of methods) {
+    const original = console[method];
+    const wrapper = function (this: unknown, ...args: unknown[]): void {
+      if (state.active) {
+        return original.apply(this, args);
+      }
+
+      flushStdout();
+      state.active = true;
+      try {
+        const prepared = args.map((arg) =>
+          typeof arg === "object" && arg !== null
+            ? redactObject(arg, redactOptions)
+            : arg,
+        );
+        original.call(this, redactLine(format(...prepared)));
+      } finally {
+        state.active = false;
+      }
+    };
+
+    console[method] = wrapper;
+    restores.push(() => {
+      // Leave the method alone if someone patched it after us
+      if (console[method] === wrapper) {
+        console[method] = original;
+      }
+    });
+  }
+
+  const stream = typeof process === "object" ? process.stdout : undefined;
+  if (stdout && stream) {
+    const original = stream.write as (...args: unknown[]) => boolean;
+    // Like a redaction stream, hold back a trailing token until the
+    // next write shows it is complete
+    const redactor = createChunkRedactor({}, redactLine);
+    const decoder = new TextDecoder();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let busy = false;
+
+    // Print held-back text: before other output, after a pause, on exit
+    const flush = () => {
+      clearTimeout(timer);
+      timer = undefined;
+      if (busy) {
+        return;
+      }
+
+      busy = true;
+      const previous = state.active;
+      state.active = true;
+      try {
+        const held = redactor.flush();
+        if (held.length > 0) {
+          original.call(stream, held);
+        }
+      } finally {
+        state.active = previous;
+        busy = false;
+      }
+    };
+
+    const wrapper = function (
+      this: typeof stream,
+      chunk: unknown,
+      ...rest: unknown[]
+    ): boolean {
+      const encoding = typeof rest[0] === "string" ? rest[0] : "utf8";
+      if (
+        state.active ||
+        busy ||
+        !/^utf-?8$/i.test(encoding) ||
+        !(typeof chunk === "string" || chunk instanceof Uint8Array)
+      ) {
+        flush();
+        return original.call(this, chunk, ...rest);
+      }
+
+      busy = true;
+      state.active = true;
+      try {
+        const text =
+          typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+        const output = redactor.push(text);
+
+        clearTimeout(timer);
+        timer = setTimeout(flush, STDOUT_FLUSH_DELAY);
+        timer.unref?.();
+
+        // Nothing to print yet: still honour a completion callback
+        if (output.length === 0 && !rest.some((arg) => typeof arg === "function")) {
+          return true;
+        }
+        return original.call(this, output, ...rest);
+      } finally {
+        state.active = false;
+        busy = false;
+      }
+    } as typeof stream.write;
+
+    stream.write = wrapper;
+    flushStdout = flush;
+    process.on("exit", flush);
+    restores.push(() => {
+      flush();
+      process.removeListener("exit", flush);
+      if (stream.write === wrapper) {
+        stream.write = original as typeof stream.write;
+      }
+    });
+  }
+
+  state.restore = () => restores.forEach((restore) => restore());
+  return state;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Create a function that masks the tokens in a line, except allowed ones
+ *
+ * @internal
+ */
+function createLineRedactor(
+  options: RedactObjectOptions,
+  allow: Array<string | RegExp>,
+): (text: string) => string {
+  const isAllowed = (token: string) =>
+    allow.some((entry) =>
+      typeof entry === "string" ? entry === token : new RegExp(entry).test(token),
+    );
+
+  return (text) => {
+    const { findings } = redactText(text, options);
+
+    let output = "";
+    let cursor = 0;
+    for (const finding of findings) {
+      const token = text.slice(finding.offset, finding.offset + finding.length);
+      if (!isAllowed(token)) {
+        output += text.slice(cursor, finding.offset) + finding.masked;
+        cursor = finding.offset + finding.length;
+      }
+    }
+    return output + text.slice(cursor);
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * File vault storage
+ *
+ * A `VaultStorage` backed by a JSON file for single-host setups. It only
+ * ever sees encrypted records. Exported from `mask-token/node`.
+ *
+ * @module core/file-vault-storage
+ */
+
+import { readFile, rename, writeFile } from "node:fs/promises";
+import type { VaultRecord, VaultStorage } from "../types";
+
+// ============================================================================
+// STORAGE ADAPTERS
+// ============================================================================
+
+/**
+ * Create a vault storage backed by a JSON file
+ *
+ * The file maps reference IDs to encrypted records. It is read once on
+ * first access (a missing file is an empty vault) and rewritten on
+ * every new record via a temporary file, readable by the owner only.
+ * Writes from one adapter are serialised; do not share the file
+ * between processes.
+ *
+ * @param path - Path of the JSON file
+ * @returns Storage adapter
+ *
+ * @example
+ * ```typescript
+ * const vault = createVault({
+ *   key: process.env.VAULT_KEY!,
+ *   storage: createFileVaultStorage('/var/lib/app/vault.json')
+ * });
+ * ```
+ */
+export function createFileVaultStorage(path: string): VaultStorage {
+  let loaded: Promise<Record<string, VaultRecord>> | null = null;
+  let pending: Promise<void> = Promise.resolve();
+
+  const load = () => (loaded ??= readRecords(path));
+
+  return {
+    async get(id) {
+      const records = await load();
+      return Object.prototype.hasOwnProperty.call(records, id)
+        ? records[id]
+        : undefined;
+    },
+
+    async set(id, record) {
+      const records = await load();
+      records[id] = record;
+
+      const write = pending.then(async () => {
+        const temporary = `${path}.${process.pid}.tmp`;
+        await writeFile(temporary, JSON.stringify(records, null, 2) + "\n", {
+          mode: 0o600,
+        });
+        await rename(temporary, path);
+      });
+      pending = write.catch(() => undefined);
+      return write;
+    },
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Read the records of a vault file
+ *
+ * @throws Error if the file exists but is not a JSON object
+ *
+ * @internal
+ */
+async function readRecords(path: string): Promise<Record<string, VaultRecord>> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw error;
+  }
+
+  const records: unknown = JSON.parse(content);
+  if (typeof records !== "object" || records === null || Array.isArray(records)) {
+    throw new Error(`Vault file ${path} does not contain a JSON object`);
+  }
+  return records as Record<string, VaultRecord>;
+}
@@ -0,0 +1,124 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Keyed token fingerprints
+ *
+ * A fingerprint is a truncated, base32-encoded HMAC-SHA256 of the full
+ * token. It tells masked tokens apart (old vs rotated key) without
+ * revealing them; without the key it cannot be checked against guesses.
+ * Computed with a built-in SHA-256 (sync, any runtime) or WebCrypto
+ * (async), with identical results.
+ *
+ * @module core/fingerprint
+ */
+
+import type { FingerprintOptions } from "../types";
+import { encodeBase32 } from "../utils/encoding";
+import { hmacSha256 } from "../utils/sha256";
+import {
+  DEFAULT_FINGERPRINT_LENGTH,
+  MAX_FINGERPRINT_LENGTH,
+} from "../utils/constants";
+
+// ============================================================================
+// FINGERPRINT FUNCTIONS
+// ============================================================================
+
+/**
+ * Compute the keyed fingerprint of a token synchronously
+ *
+ * Gives the same value `maskToken()` appends with the `fingerprint`
+ * option.
+ *
+ * @param token - Full, unmasked token
+ * @param options - HMAC key and fingerprint length
+ * @returns Base32 fingerprint
+ * @throws Error if the key is empty or the length is out of range
+ *
+ * @example
+ * ```typescript
+ * fingerprintToken('npm_a1b2c3d4e5f6g7h8i9j0', { key: process.env.LOG_HMAC_KEY! });
+ * // → 'K7QX'
+ * ```
+ */
+export function fingerprintToken(
+  token: string,
+  options: FingerprintOptions,
+): string {
+  const length = resolveLength(options);
+  const digest = hmacSha256(options.key, token);
+
+  return encodeBase32(digest).slice(0, length);
+}
+
+/**
+ * Compute the keyed fingerprint of a token with WebCrypto
+ *
+ * For browsers, edge runtimes and workers; gives the same value as
+ * `fingerprintToken()`.
+ *
+ * @param token - Full, unmasked token
+ * @param options - HMAC key and fingerprint length
+ * @returns Promise of the base32 fingerprint
+ * @throws Error if the key is empty, the length is out of range or
+ *   WebCrypto is unavailable
+ *
+ * @example
+ * ```typescript
+ * await fingerprintTokenAsync('npm_a1b2c3d4e5f6g7h8i9j0', { key: env.LOG_HMAC_KEY });
+ * // → 'K7QX'
+ * ```
+ */
+export async function fingerprintTokenAsync(
+  token: string,
+  options: FingerprintOptions,
+): Promise<string> {
+  const length = resolveLength(options);
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error("WebCrypto is not available in this environment");
+  }
+
+  const key = await subtle.importKey(
+    "raw",
+    new Uint8Array(toKeyBytes(options.key)),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const digest = await subtle.sign("HMAC", key, new TextEncoder().encode(token));
+
+  return encodeBase32(new Uint8Array(digest)).slice(0, length);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate the options and return the fingerprint length
+ *
+ * @internal
+ */
+function resolveLength(options: FingerprintOptions): number {
+  if (!options || options.key === undefined || options.key.length === 0) {
+    throw new Error("Fingerprint key must not be empty");
+  }
+
+  const length = options.length ?? DEFAULT_FINGERPRINT_LENGTH;
+  if (!Number.isInteger(length) || length < 1 || length > MAX_FINGERPRINT_LENGTH) {
+    throw new Error(
+      `Fingerprint length must be an integer between 1 and ${MAX_FINGERPRINT_LENGTH}`,
+    );
+  }
+  return length;
+}
+
+/**
+ * HMAC key as bytes (strings are UTF-8 encoded)
+ *
+ * @internal
+ */
+function toKeyBytes(key: string | Uint8Array): Uint8Array {
+  return typeof key === "string" ? new TextEncoder().encode(key) : key;
+}
@@ -0,0 +1,343 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Git change scanner
+ *
+ * Scans the staged changes or the commits in a range for new tokens.
+ * Runs the local `git` binary (never fetching from a remote), parses
+ * its unified diff output and checks only added lines, with the same
+ * detection and masking as `scanPaths()`.
+ *
+ * @module core/git-scanner
+ */
+
+import { spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+import type { GitScanOptions, ScanResult } from "../types";
+import { isSuppressed, scanLine } from "./scanner";
+
+/**
+ * Marks the commit header lines in `git log` output (record and unit
+ * separators cannot appear at the start of a diff line)
+ *
+ * @internal
+ */
+const COMMIT_MARKER = "\u001e";
+const FIELD_SEPARATOR = "\u001f";
+
+/**
+ * Diff options shared by `git diff` and `git log`
+ *
+ * One line of context keeps an ignore comment above an added line
+ * visible; fixed prefixes override `diff.noprefix` and friends.
+ *
+ * @internal
+ */
+const DIFF_ARGS = [
+  "--no-color",
+  "--no-ext-diff",
+  "--no-textconv",
+  "--unified=1",
+  "--src-prefix=a/",
+  "--dst-prefix=b/",
+];
+
+/**
+ * Hunk header: `@@ -start[,count] +start[,count] @@`
+ *
+ * @internal
+ */
+const HUNK_HEADER_PATTERN = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parser position in the diff output
+ *
+ * @internal
+ */
+interface DiffState {
+  commit?: string;
+  author?: string;
+  file: string | null;
+  line: number;
+  oldRemaining: number;
+  newRemaining: number;
+  previous?: string;
+}
+
+// ============================================================================
+// SCANNING
+// ============================================================================
+
+/**
+ * Scan the staged changes (`git diff --cached`) for new tokens
+ *
+ * Only added lines are checked; file paths are relative to the
+ * repository root.
+ *
+ * @param options - Repository directory, detection and masking options
+ * @returns Findings and counts (files with added lines, binary files)
+ * @throws Error if git is not installed or the directory is not a
+ *   repository
+ *
+ * @example
+ * ```typescript
+ * // .git/hooks/pre-commit
+ * const { findings } = await scanStagedChanges();
+ * if (findings.length > 0) process.exit(1);
+ * ```
+ */
+export async function scanStagedChanges(
+  options: GitScanOptions = {},
+): Promise<ScanResult> {
+  return scanGitOutput(["diff", "--cached", ...DIFF_ARGS], options);
+}
+
+/**
+ * Scan the commits in a range for new tokens
+ *
+ * Each commit's added lines are checked, and findings name the commit
+ * and its author. Merge commits are not diffed.
+ *
+ * @param range - Revision range, e.g. `origin/main..HEAD` or a single commit
+ * @param options - Repository directory, detection and masking options
+ * @returns Findings and counts
+ * @throws Error if the range is invalid, git is not installed or the
+ *   directory is not a repository
+ *
+ * @example
+ * ```typescript
+ * const { findings } = await scanCommitRange('origin/main..HEAD');
+ * // [{ commit: '3f2a...', author: 'Sam <sam@example.com>', file: 'src/app.ts',
+ * //    line: 12, masked: 'ghp_••••••••8JKK', ... }]
+ * ```
+ */
+export async function scanCommitRange(
+  range: string,
+  options: GitScanOptions = {},
+): Promise<ScanResult> {
+  if (!range || range.startsWith("-")) {
+    throw new Error(`Invalid commit range: ${range}`);
+  }
+
+  return scanGitOutput(
+    [
+      "log",
+      "--patch",
+      ...DIFF_ARGS,
+      `--format=${COMMIT_MARKER}%H${FIELD_SEPARATOR}%an <%ae>`,
+      range,
+      "--",
+    ],
+    options,
+  );
+}
+
+// ============================================================================
+// DIFF PARSING
+// ============================================================================
+
+/**
+ * Run git and scan the added lines of its diff output
+ *
+ * @internal
+ */
+async function scanGitOutput(
+  args: string[],
+  options: GitScanOptions,
+): Promise<ScanResult> {
+  const { cwd = process.cwd(), ...scanOptions } = options;
+  const result: ScanResult = {
+    findings: [],
+    filesScanned: 0,
+    filesSkipped: 0,
+    suppressed: 0,
+  };
+  const state: DiffState = {
+    file: null,
+    line: 0,
+    oldRemaining: 0,
+    newRemaining: 0,
+  };
+
+  await runGit(args, cwd, (text) =>
+    parseDiffLine(text, state, result, scanOptions),
+  );
+  return result;
+}
+
+/**
+ * Consume one line of `git diff` / `git log --patch` output
+ *
+ * @internal
+ */
+function parseDiffLine(
+  text: string,
+  state: DiffState,
+  result: ScanResult,
+  options: GitScanOptions,
+): void {
+  if (state.oldRemaining > 0 || state.newRemaining > 0) {
+    const marker = text[0];
+
+    if (marker === "+") {
+      const added = text.slice(1);
+      if (state.file !== null) {
+        const findings = scanLine(added, state.line, state.file, options);
+        if (isSuppressed(added, state.previous)) {
+          result.suppressed += findings.length;
+        } else {
+          result.findings.push(
+            ...findings.map((finding) =>
+              state.commit === undefined
+                ? finding
+                : { ...finding, commit: state.commit, author: state.author },
+            ),
+          );
+        }
+      }
+      state.previous = added;
+      state.line++;
+      state.newRemaining--;
+      return;
+    }
+    if (marker === "-") {
+      state.oldRemaining--;
+      return;
+    }
+    if (marker === "\\") {
+      return; // "\ No newline at end of file"
+    }
+    if (marker === " " || text === "") {
+      state.previous = text.slice(1);
+      state.line++;
+      state.oldRemaining--;
+      state.newRemaining--;
+      return;
+    }
+
+    // Anything else ends the hunk early
+    state.oldRemaining = 0;
+    state.newRemaining = 0;
+  }
+
+  if (text.startsWith(COMMIT_MARKER)) {
+    const [commit, author] = text.slice(1).split(FIELD_SEPARATOR);
+    state.commit = commit;
+    state.author = author;
+    state.file = null;
+  } else if (text.startsWith("diff --git ")) {
+    state.file = null;
+  } else if (text.startsWith("+++ ")) {
+    // git appends a tab to unquoted paths that contain a space
+    const path = unquotePath(text.slice(4).replace(/\t$/, ""));
+    state.file = path.startsWith("b/") ? path.slice(2) : null; // null: /dev/null
+    if (state.file !== null) {
+      result.filesScanned++;
+    }
+  } else if (text.startsWith("Binary files ")) {
+    result.filesSkipped++;
+  } else {
+    const hunk = HUNK_HEADER_PATTERN.exec(text);
+    if (hunk) {
+      state.oldRemaining = hunk[1] === undefined ? 1 : Number(hunk[1]);
+      state.line = Number(hunk[2]);
+      state.newRemaining = hunk[3] === undefined ? 1 : Number(hunk[3]);
+      state.previous = undefined;
+    }
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Run git, passing each line of its output to `onLine`
+ *
+ * Lazy fetching of missing objects (partial clones) and credential
+ * prompts are disabled, so git never contacts a remote.
+ *
+ * @internal
+ */
+async function runGit(
+  args: string[],
+  cwd: string,
+  onLine: (line: string) => void,
+): Promise<void> {
+  const child = spawn("git", ["-c", "core.quotePath=false", ...args], {
+    cwd,
+    env: { ...process.env, GIT_NO_LAZY_FETCH: "1", GIT_TERMINAL_PROMPT: "0" },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  let stderr = "";
+  child.stderr.setEncoding("utf8");
+  child.stderr.on("data", (chunk: string) => (stderr += chunk));
+
+  const exit = new Promise<number | null>((resolve, reject) => {
+    child.on("error", (error: NodeJS.ErrnoException) =>
+      reject(
+        error.code === "ENOENT"
+          ? new Error("git is not installed or not on PATH")
+          : error,
+      ),
+    );
+    child.on("close", resolve);
+  });
+  exit.catch(() => {}); // Awaited below, after the output is consumed
+
+  try {
+    const lines = createInterface({ input: child.stdout, crlfDelay: Infinity });
+    for await (const line of lines) {
+      onLine(line);
+    }
+  } catch (error) {
+    child.kill();
+    throw error;
+  }
+
+  const code = await exit;
+  if (code !== 0) {
+    const message = stderr.trim().split("\n")[0] || `exit code ${code}`;
+    throw new Error(`git ${args[0]} failed: ${message}`);
+  }
+}
+
+/**
+ * Decode a path git quoted because of special characters
+ * (`"tab\there.txt"`, octal escapes for other bytes)
+ *
+ * @internal
+ */
+function unquotePath(path: string): string {
+  if (!path.startsWith('"') || !path.endsWith('"')) {
+    return path;
+  }
+
+  const escapes: Record<string, string> = {
+    a: "\x07",
+    b: "\b",
+    t: "\t",
+    n: "\n",
+    v: "\v",
+    f: "\f",
+    r: "\r",
+  };
+  const bytes: number[] = [];
+  const body = path.slice(1, -1);
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char !== "\\") {
+      bytes.push(...Buffer.from(char, "utf8"));
+    } else if (/[0-7]{3}/.test(body.slice(i + 1, i + 4))) {
+      bytes.push(parseInt(body.slice(i + 1, i + 4), 8));
+      i += 3;
+    } else {
+      const next = body[++i] ?? "";
+      bytes.push(...Buffer.from(escapes[next] ?? next, "utf8"));
+    }
+  }
+
+  return Buffer.from(bytes).toString("utf8");
+}
@@ -0,0 +1,352 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * JWT/JWE decoding and claim redaction for claims-aware `jwt` mode
+ *
+ * @module core/jwt
+ */
+
+import type { JwtMetadata, JwtOptions } from "../types";
+import { decodeBase64Url } from "../utils/encoding";
+import {
+  DEFAULT_JWE_SAFE_HEADERS,
+  DEFAULT_JWT_SAFE_CLAIMS,
+  JWE_SEGMENT_COUNT,
+  JWT_SEGMENT_COUNT,
+  WARNING_MESSAGES,
+} from "../utils/constants";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A JWT split into its decoded parts
+ *
+ * @internal
+ */
+export interface DecodedJwt {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  signature: string;
+}
+
+/**
+ * A compact JWE split into its parts (only the header is decoded)
+ *
+ * @internal
+ */
+export interface DecodedJwe {
+  header: Record<string, unknown>;
+  encryptedKey: string;
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+/**
+ * Claims whose numeric value is a NumericDate (seconds since epoch)
+ */
+const NUMERIC_DATE_CLAIMS = new Set(["exp", "iat", "nbf"]);
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+/**
+ * Decode the header and payload of a compact JWS
+ *
+ * The signature is not verified.
+ *
+ * @param input - JWT string (`header.payload.signature`)
+ * @returns Decoded parts, or null if the header or payload is not a
+ *   base64url-encoded JSON object
+ *
+ * @example
+ * ```typescript
+ * decodeJwt('eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxMjMifQ.sig');
+ * // { header: { alg: 'HS256' }, payload: { sub: '123' }, signature: 'sig' }
+ *
+ * decodeJwt('eyJhbGciOi.eyJzdWIiOi.SflKxwRJ'); // → null (truncated)
+ * ```
+ */
+export function decodeJwt(input: string): DecodedJwt | null {
+  if (!input || typeof input !== "string") {
+    return null;
+  }
+
+  const parts = input.split(".");
+  if (parts.length !== JWT_SEGMENT_COUNT) {
+    return null;
+  }
+
+  const header = decodeJsonObject(parts[0]);
+  const payload = decodeJsonObject(parts[1]);
+  if (!header || !payload) {
+    return null;
+  }
+
+  return { header, payload, signature: parts[2] };
+}
+
+/**
+ * Decode the protected header of a compact JWE
+ *
+ * The header must be a JSON object with an `enc` parameter, which sets
+ * JWEs apart from other five-part dotted strings.
+ *
+ * @param input - JWE string (`header.encryptedKey.iv.ciphertext.tag`)
+ * @returns Decoded header plus the raw encrypted parts, or null
+ *
+ * @example
+ * ```typescript
+ * decodeJwe('eyJhbGciOiJSU0EtT0FFUCIsImVuYyI6IkEyNTZHQ00ifQ.OKOa...');
+ * // { header: { alg: 'RSA-OAEP', enc: 'A256GCM' }, encryptedKey: 'OKOa...', ... }
+ * ```
+ */
+export function decodeJwe(input: string): DecodedJwe | null {
+  if (!input || typeof input !== "string") {
+    return null;
+  }
+
+  const parts = input.split(".");
+  if (parts.length !== JWE_SEGMENT_COUNT || !/^[A-Za-z0-9_-]*$/.test(parts.join(""))) {
+    return null;
+  }
+
+  const header = decodeJsonObject(parts[0]);
+  if (!header || typeof header.enc !== "string") {
+    return null;
+  }
+
+  const [, encryptedKey, iv, ciphertext, tag] = parts;
+  return { header, encryptedKey, iv, ciphertext, tag };
+}
+
+/**
+ * Decode a base64url segment holding a JSON object
+ *
+ * @internal
+ */
+function decodeJsonObject(segment: string): Record<string, unknown> | null {
+  const json = decodeBase64Url(segment);
+  if (json === null) {
+    return null;
+  }
+
+  try {
+    const value: unknown = JSON.parse(json);
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+// ============================================================================
+// INSPECTION
+// ============================================================================
+
+/**
+ * Check a decoded JWT for unsafe or stale properties
+ *
+ * Flags unsigned tokens (`alg: none`) and tokens whose `exp` claim is
+ * in the past.
+ *
+ * @param decoded - Decoded JWT
+ * @param now - Current time in milliseconds (default: `Date.now()`)
+ * @returns Warning messages (empty if none)
+ *
+ * @example
+ * ```typescript
+ * getJwtWarnings(decodeJwt(unsignedJwt)!);
+ * // ['JWT uses alg "none" (unsigned token)']
+ * ```
+ */
+export function getJwtWarnings(
+  decoded: DecodedJwt,
+  now: number = Date.now(),
+): string[] {
+  const warnings: string[] = [];
+
+  const { alg } = decoded.header;
+  if (typeof alg === "string" && alg.toLowerCase() === "none") {
+    warnings.push(WARNING_MESSAGES.JWT_ALG_NONE);
+  }
+
+  if (isExpired(decoded, now)) {
+    warnings.push(
+      WARNING_MESSAGES.JWT_EXPIRED(formatNumericDate(decoded.payload.exp as number)),
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Whether the `exp` claim lies in the past
+ *
+ * @internal
+ */
+function isExpired(decoded: DecodedJwt, now: number): boolean {
+  const { exp } = decoded.payload;
+  return typeof exp === "number" && exp * 1000 <= now;
+}
+
+/**
+ * Format a NumericDate (seconds since epoch) as an ISO 8601 string
+ *
+ * @internal
+ */
+function formatNumericDate(seconds: number): string {
+  const date = new Date(seconds * 1000);
+  if (isNaN(date.getTime())) {
+    return String(seconds);
+  }
+  return date.toISOString().replace(/\.000Z$/, "Z");
+}
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+/**
+ * Redact the claims of a decoded JWT
+ *
+ * Allowed claims keep their value, denied claims are dropped and every
+ * other claim value is passed through `maskValue`.
+ *
+ * @param decoded - Decoded JWT
+ * @param options - Allow/deny lists
+ * @param maskValue - Masks a claim value rendered as a string
+ * @param now - Current time in milliseconds (default: `Date.now()`)
+ * @returns Redacted structure for `TokenMetadata.jwt`
+ */
+export function redactJwt(
+  decoded: DecodedJwt,
+  options: JwtOptions,
+  maskValue: (value: string) => string,
+  now: number = Date.now(),
+): JwtMetadata {
+  const redact = (claims: Record<string, unknown>): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(claims)) {
+      const access = getClaimAccess(name, options);
+      if (access === "deny") {
+        continue;
+      }
+      result[name] =
+        access === "allow"
+          ? value
+          : maskValue(typeof value === "string" ? value : JSON.stringify(value));
+    }
+    return result;
+  };
+
+  return {
+    header: redact(decoded.header),
+    payload: redact(decoded.payload),
+    expired: isExpired(decoded, now),
+  };
+}
+
+/**
+ * Render the safe claims of a decoded JWT as a readable summary
+ *
+ * Produces `<header>.<payload>.<signature>` where header and payload are
+ * JSON objects of the allowed claims (NumericDates as ISO 8601) and the
+ * signature is replaced by `signatureMask`.
+ *
+ * @param decoded - Decoded JWT
+ * @param options - Allow/deny lists
+ * @param signatureMask - Replacement for a non-empty signature
+ * @returns Summary string
+ *
+ * @example
+ * ```typescript
+ * summarizeJwt(decoded, {}, '••••••••');
+ * // → '{"alg":"HS256","typ":"JWT"}.{"iss":"https://auth.example.com","exp":"2026-01-01T00:00:00Z"}.••••••••'
+ * ```
+ */
+export function summarizeJwt(
+  decoded: DecodedJwt,
+  options: JwtOptions,
+  signatureMask: string,
+): string {
+  const signature = decoded.signature ? signatureMask : "";
+  return [
+    summarizeClaims(decoded.header, options, DEFAULT_JWT_SAFE_CLAIMS),
+    summarizeClaims(decoded.payload, options, DEFAULT_JWT_SAFE_CLAIMS),
+    signature,
+  ].join(".");
+}
+
+/**
+ * Render the safe header of a JWE and mask every encrypted part
+ *
+ * Empty parts (e.g. the encrypted key with `alg: dir`) stay empty.
+ *
+ * @param decoded - Decoded JWE
+ * @param options - Allow/deny lists (default allow: `alg`, `enc`, `kid`, `typ`, `cty`, `zip`)
+ * @param partMask - Replacement for each non-empty encrypted part
+ * @returns Summary string
+ *
+ * @example
+ * ```typescript
+ * summarizeJwe(decoded, {}, '••••••••');
+ * // → '{"alg":"RSA-OAEP","enc":"A256GCM"}.••••••••.••••••••.••••••••.••••••••'
+ * ```
+ */
+export function summarizeJwe(
+  decoded: DecodedJwe,
+  options: JwtOptions,
+  partMask: string,
+): string {
+  const { encryptedKey, iv, ciphertext, tag } = decoded;
+  return [
+    summarizeClaims(decoded.header, options, DEFAULT_JWE_SAFE_HEADERS),
+    ...[encryptedKey, iv, ciphertext, tag].map((part) => (part ? partMask : "")),
+  ].join(".");
+}
+
+/**
+ * Render the allowed claims as JSON (NumericDates as ISO 8601)
+ *
+ * @internal
+ */
+function summarizeClaims(
+  claims: Record<string, unknown>,
+  options: JwtOptions,
+  defaultAllow: readonly string[],
+): string {
+  const safe: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(claims)) {
+    if (getClaimAccess(name, options, defaultAllow) !== "allow") {
+      continue;
+    }
+    safe[name] =
+      NUMERIC_DATE_CLAIMS.has(name) && typeof value === "number"
+        ? formatNumericDate(value)
+        : value;
+  }
+  return JSON.stringify(safe);
+}
+
+/**
+ * Decide how a claim is treated (deny wins over allow)
+ *
+ * @internal
+ */
+function getClaimAccess(
+  name: string,
+  options: JwtOptions,
+  defaultAllow: readonly string[] = DEFAULT_JWT_SAFE_CLAIMS,
+): "allow" | "deny" | "mask" {
+  if (options.denyClaims?.includes(name)) {
+    return "deny";
+  }
+  const allowed = options.allowClaims ?? defaultAllow;
+  return allowed.includes(name) ? "allow" : "mask";
+}
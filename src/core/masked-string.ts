@@ -0,0 +1,107 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Already-masked input detection
+ *
+ * Recognises strings produced by masking so they are not masked twice
+ * and can be narrowed to `MaskedString`.
+ *
+ * @module core/masked-string
+ */
+
+import type { MaskChar, MaskedString, MaskOptions } from "../types";
+import { detectPrefix } from "../presets/registry";
+import { getPreset } from "../presets/defaults";
+import {
+  DEFAULT_MASK_CHAR,
+  DEFAULT_SHOW_HEAD,
+  DEFAULT_SHOW_TAIL,
+  FINGERPRINT_SEPARATOR,
+  MIN_MASKED_RUN,
+  PREDEFINED_MASK_CHARS,
+} from "../utils/constants";
+
+/**
+ * Keyed fingerprint appended by the `fingerprint` option
+ *
+ * @internal
+ */
+const FINGERPRINT_PATTERN = new RegExp(`${FINGERPRINT_SEPARATOR}[A-Z2-7]+$`);
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Check whether a string is already masked
+ *
+ * The whole string must have the shape of masking output: an optional
+ * detected prefix, at most `showHead` clear characters, one run of at
+ * least 4 mask characters, at most `showTail` clear characters and an
+ * optional `#fingerprint`. A secret that merely contains `****` is not
+ * masked.
+ *
+ * The mask character is one of the predefined ones (`•`, `*`, `×`, `─`)
+ * or the custom `maskChar` (a multi-character `maskChar` counts by
+ * repetition). Alphanumeric custom mask characters are ignored: such
+ * output cannot be told apart from a real token.
+ *
+ * @param value - Value to check
+ * @param options - The custom `maskChar`, or the options the value was
+ *   masked with (`preset`, `showHead`, `showTail`, `maskChar`, prefixes);
+ *   defaults to the default options
+ * @returns true if the value looks like masking output
+ *
+ * @example
+ * ```typescript
+ * isMasked('npm_••••••••i9j0');                        // true
+ * isMasked('sk_live_********p7dc');                    // true
+ * isMasked('npm_a1b2c3d4e5f6g7h8i9j0');                // false
+ * isMasked('correct****horse-battery-staple');         // false
+ * isMasked('ghp_████████8JKK', '█');                   // true
+ * isMasked('npm_a1••••••••i9j0', { preset: 'balanced' }); // true
+ * ```
+ */
+export function isMasked(
+  value: unknown,
+  options: MaskChar | MaskOptions = {},
+): value is MaskedString {
+  if (typeof value !== "string" || value.length === 0) {
+    return false;
+  }
+
+  const opts: MaskOptions =
+    typeof options === "string" ? { maskChar: options } : options;
+  const preset = opts.preset ? getPreset(opts.preset) : undefined;
+  const maskChar = opts.maskChar ?? preset?.maskChar ?? DEFAULT_MASK_CHAR;
+  const showHead = opts.showHead ?? preset?.showHead ?? DEFAULT_SHOW_HEAD;
+  const showTail = opts.showTail ?? preset?.showTail ?? DEFAULT_SHOW_TAIL;
+
+  const chars = /^[A-Za-z0-9]+$/.test(maskChar)
+    ? PREDEFINED_MASK_CHARS
+    : [...PREDEFINED_MASK_CHARS, maskChar];
+
+  let rest = value.replace(FINGERPRINT_PATTERN, "");
+  const { prefix } = detectPrefix(rest, opts.customPrefixes, opts.registry);
+  if (prefix !== null && rest.startsWith(prefix)) {
+    rest = rest.slice(prefix.length);
+  }
+
+  return chars.some((char) => {
+    const start = rest.indexOf(char);
+    if (start === -1 || start > showHead) {
+      return false;
+    }
+
+    let end = start;
+    while (rest.startsWith(char, end)) {
+      end += char.length;
+    }
+
+    return (
+      end - start >= MIN_MASKED_RUN &&
+      rest.length - end <= showTail &&
+      !rest.includes(char, end)
+    );
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Node stream redaction
+ *
+ * A Node `Transform` around the incremental redactor shared with
+ * `createWebRedactionStream()`. Exported from `mask-token/node`.
+ *
+ * @module core/node-stream
+ */
+
+import { Transform } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+import type { RedactStreamOptions } from "../types";
+import { createChunkRedactor } from "./stream-redactor";
+
+// ============================================================================
+// STREAM FACTORIES
+// ============================================================================
+
+/**
+ * Create a Node `Transform` that masks tokens in the data flowing through it
+ *
+ * Accepts Buffer or string chunks (multi-byte characters split across
+ * Buffers are decoded correctly) and emits redacted strings.
+ *
+ * @param options - `redactText()` options plus `maxTokenLength`
+ * @returns Transform stream
+ *
+ * @example
+ * ```typescript
+ * import { spawn } from 'node:child_process';
+ * import { createRedactionStream } from 'mask-token/node';
+ *
+ * const child = spawn('npm', ['publish']);
+ * child.stdout
+ *   .pipe(createRedactionStream({ preset: 'strict' }))
+ *   .pipe(process.stdout);
+ * ```
+ */
+export function createRedactionStream(
+  options: RedactStreamOptions = {},
+): Transform {
+  const redactor = createChunkRedactor(options);
+  const decoder = new StringDecoder("utf8");
+
+  return new Transform({
+    decodeStrings: false,
+    transform(chunk: Buffer | string, _encoding, callback) {
+      const text = typeof chunk === "string" ? chunk : decoder.write(chunk);
+      const output = redactor.push(text);
+      callback(null, output.length > 0 ? output : undefined);
+    },
+    flush(callback) {
+      const output = redactor.push(decoder.end()) + redactor.flush();
+      callback(null, output.length > 0 ? output : undefined);
+    },
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * PASETO and Branca token parsing
+ *
+ * Both formats are opaque (encrypted or signed) and carry no claims that
+ * are readable without a key, so only their framing is inspected.
+ *
+ * @module core/opaque-tokens
+ */
+
+import { decodeBase62 } from "../utils/encoding";
+import { BRANCA_MIN_BYTES, BRANCA_VERSION } from "../utils/constants";
+
+// ============================================================================
+// PASETO
+// ============================================================================
+
+/**
+ * A PASETO token split into its parts
+ *
+ * @internal
+ */
+export interface PasetoParts {
+  /**
+   * Version and purpose header, e.g. `v4.local.`
+   */
+  header: string;
+
+  /**
+   * Encrypted (`local`) or signed (`public`) payload
+   */
+  payload: string;
+
+  /**
+   * Optional unencrypted footer (base64url), null if absent
+   */
+  footer: string | null;
+}
+
+/**
+ * PASETO layout: `v<1-4>.<local|public>.<payload>[.<footer>]`
+ */
+const PASETO_PATTERN =
+  /^(v[1-4]\.(?:local|public)\.)([A-Za-z0-9_-]+)(?:\.([A-Za-z0-9_-]+))?$/;
+
+/**
+ * Split a PASETO token into header, payload and footer
+ *
+ * @param input - Token string
+ * @returns Token parts, or null if the input is not a PASETO token
+ *
+ * @example
+ * ```typescript
+ * parsePaseto('v4.local.QAxIpVe-ECVNI1z4xQbm.eyJraWQiOiJrZXktMSJ9');
+ * // { header: 'v4.local.', payload: 'QAxIpVe-ECVNI1z4xQbm', footer: 'eyJraWQiOiJrZXktMSJ9' }
+ * ```
+ */
+export function parsePaseto(input: string): PasetoParts | null {
+  const match = PASETO_PATTERN.exec(input);
+  if (!match) {
+    return null;
+  }
+
+  return { header: match[1], payload: match[2], footer: match[3] ?? null };
+}
+
+// ============================================================================
+// BRANCA
+// ============================================================================
+
+/**
+ * Check whether a string is a Branca token
+ *
+ * Branca tokens are base62 and decode to at least version, timestamp,
+ * nonce and tag bytes, starting with the version byte `0xBA`.
+ *
+ * @param input - Token string
+ * @returns true if the input decodes as a Branca token
+ *
+ * @example
+ * ```typescript
+ * isBranca('875GH233T7IYrxtgXxlQBYiFobZMQdHAT51vChKsAIYCFxZtL1evV54vYqLyZtQ0ekPHt8kJHQp0a');
+ * // → true
+ * ```
+ */
+export function isBranca(input: string): boolean {
+  if (!input || typeof input !== "string" || !/^[0-9A-Za-z]+$/.test(input)) {
+    return false;
+  }
+
+  const bytes = decodeBase62(input);
+  return (
+    bytes !== null &&
+    bytes.length >= BRANCA_MIN_BYTES &&
+    bytes[0] === BRANCA_VERSION
+  );
+}
@@ -0,0 +1,301 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Scan reporters
+ *
+ * Renders scan findings as a terminal table, newline-delimited JSON,
+ * SARIF 2.1.0 (GitHub code scanning) or JUnit XML. Reporters only see
+ * `ScanFinding` values, which hold masked previews and masked snippets,
+ * so no report can contain a raw secret.
+ *
+ * @module core/scan-reporters
+ */
+
+import type {
+  PrefixDefinition,
+  ScanFinding,
+  ScanReportFormat,
+  ScanReporter,
+  ScanResult,
+} from "../types";
+import { KNOWN_PREFIXES, getPrefixInfo } from "../presets/registry";
+import {
+  PACKAGE_NAME,
+  REPOSITORY_URL,
+  SCAN_REPORT_FORMATS,
+  SCAN_SEVERITY,
+  VERSION,
+} from "../utils/constants";
+
+/**
+ * SARIF schema reported in `$schema`
+ *
+ * @internal
+ */
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Render a scan result
+ *
+ * @param result - Result of `scanPaths()`
+ * @param format - Built-in format name or a custom reporter
+ * @returns Report text
+ * @throws Error for an unknown format name
+ *
+ * @example
+ * ```typescript
+ * const result = await scanPaths(['.']);
+ * await writeFile('results.sarif', formatScanReport(result, 'sarif'));
+ * ```
+ */
+export function formatScanReport(
+  result: ScanResult,
+  format: ScanReportFormat | ScanReporter = "table",
+): string {
+  if (typeof format === "function") {
+    return format(result);
+  }
+  if (!SCAN_REPORT_FORMATS.includes(format)) {
+    throw new Error(
+      `Unknown report format: ${String(format)} (expected ${SCAN_REPORT_FORMATS.join(", ")})`,
+    );
+  }
+  return REPORTERS[format](result);
+}
+
+// ============================================================================
+// REPORTERS
+// ============================================================================
+
+/**
+ * Built-in reporters by format name
+ *
+ * @internal
+ */
+const REPORTERS: Record<ScanReportFormat, ScanReporter> = {
+  table({ findings }) {
+    if (findings.length === 0) {
+      return "No tokens found.\n";
+    }
+
+    const rows = [
+      ["LOCATION", "TYPE", "CONFIDENCE", "PREVIEW"],
+      ...findings.map((finding) => [
+        formatLocation(finding),
+        finding.type,
+        finding.confidence.toFixed(2),
+        finding.masked,
+      ]),
+    ];
+    const widths = rows[0].map((_, column) =>
+      Math.max(...rows.map((row) => row[column].length)),
+    );
+
+    return rows
+      .map(
+        (row) =>
+          row
+            .map((cell, column) =>
+              column === row.length - 1 ? cell : cell.padEnd(widths[column]),
+            )
+            .join("  ") + "\n",
+      )
+      .join("");
+  },
+
+  ndjson({ findings }) {
+    return findings.map((finding) => `${JSON.stringify(finding)}\n`).join("");
+  },
+
+  sarif({ findings }) {
+    const rules: object[] = [];
+    const ruleIndex = new Map<string, number>();
+
+    const results = findings.map((finding) => {
+      const id = toRuleId(finding.type);
+      const definition = findDefinition(finding);
+      const category = categoryOf(finding, definition);
+      const severity = SCAN_SEVERITY[category];
+
+      if (!ruleIndex.has(id)) {
+        ruleIndex.set(id, rules.length);
+        rules.push({
+          id,
+          name: finding.type,
+          shortDescription: { text: `Hard-coded ${finding.type}` },
+          ...(definition?.docsUrl ? { helpUri: definition.docsUrl } : {}),
+          defaultConfiguration: { level: severity.level },
+          properties: {
+            tags: [...new Set(["security", "secret", category])],
+            "security-severity": severity.score.toFixed(1),
+          },
+        });
+      }
+
+      return {
+        ruleId: id,
+        ruleIndex: ruleIndex.get(id),
+        level: severity.level,
+        // Verified checksums first, failed ones (samples, typos) last
+        rank: Math.round(finding.confidence * 100),
+        message: { text: `${finding.type} found: ${finding.masked}` },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: encodeURI(finding.file) },
+              region: {
+                startLine: finding.line,
+                startColumn: finding.column,
+                snippet: { text: finding.snippet },
+              },
+            },
+          },
+        ],
+        properties: {
+          confidence: finding.confidence,
+          ...(finding.checksumValid !== undefined && {
+            checksumValid: finding.checksumValid,
+          }),
+          ...(finding.commit && { commit: finding.commit, author: finding.author }),
+        },
+      };
+    });
+
+    const log = {
+      $schema: SARIF_SCHEMA,
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: PACKAGE_NAME,
+              version: VERSION,
+              informationUri: REPOSITORY_URL,
+              rules,
+            },
+          },
+          results,
+        },
+      ],
+    };
+
+    return `${JSON.stringify(log, null, 2)}\n`;
+  },
+
+  junit({ findings, filesScanned }) {
+    const byFile = new Map<string, ScanFinding[]>();
+    for (const finding of findings) {
+      byFile.set(finding.file, [...(byFile.get(finding.file) ?? []), finding]);
+    }
+
+    // One failing test case per file with findings, or one passing case
+    const cases = [...byFile].map(([file, fileFindings]) => {
+      const details = fileFindings
+        .map(
+          (finding) =>
+            `${formatLocation(finding)} ${finding.type} ${finding.masked}` +
+            (finding.author ? ` (${finding.author})` : "") +
+            `\n  ${finding.snippet}`,
+        )
+        .join("\n");
+      return (
+        `    <testcase classname="${PACKAGE_NAME}" name="${escapeXml(file)}">\n` +
+        `      <failure message="${fileFindings.length} token(s) found" type="secret">` +
+        `${escapeXml(details)}</failure>\n` +
+        `    </testcase>\n`
+      );
+    });
+    if (cases.length === 0) {
+      cases.push(
+        `    <testcase classname="${PACKAGE_NAME}" name="${filesScanned} file(s) scanned"/>\n`,
+      );
+    }
+
+    const counts = `tests="${cases.length}" failures="${byFile.size}" errors="0"`;
+    return (
+      `<?xml version="1.0" encoding="UTF-8"?>\n` +
+      `<testsuites name="${PACKAGE_NAME}" ${counts}>\n` +
+      `  <testsuite name="${PACKAGE_NAME} scan" ${counts}>\n` +
+      cases.join("") +
+      `  </testsuite>\n` +
+      `</testsuites>\n`
+    );
+  },
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * `file:line:column`, prefixed with the short commit ID for findings
+ * from a commit range (`3f2a9c1:src/app.ts:12:5`, as `git grep` prints)
+ *
+ * @internal
+ */
+function formatLocation(finding: ScanFinding): string {
+  const location = `${finding.file}:${finding.line}:${finding.column}`;
+  return finding.commit ? `${finding.commit.slice(0, 7)}:${location}` : location;
+}
+
+/**
+ * SARIF rule ID for a token type (`GitHub Personal Access Token` →
+ * `github-personal-access-token`)
+ *
+ * @internal
+ */
+function toRuleId(type: string): string {
+  return type
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Find the prefix definition behind a finding
+ *
+ * @internal
+ */
+function findDefinition(finding: ScanFinding): PrefixDefinition | undefined {
+  return (
+    KNOWN_PREFIXES.find((definition) => definition.name === finding.type) ??
+    (finding.prefix !== null ? getPrefixInfo(finding.prefix) : undefined)
+  );
+}
+
+/**
+ * Severity category of a finding
+ *
+ * Findings without a prefix are private key blocks.
+ *
+ * @internal
+ */
+function categoryOf(
+  finding: ScanFinding,
+  definition: PrefixDefinition | undefined,
+): keyof typeof SCAN_SEVERITY {
+  if (finding.prefix === null) {
+    return "key";
+  }
+  return definition?.category ?? "default";
+}
+
+/**
+ * Escape text for XML attributes and content, dropping characters XML
+ * cannot represent
+ *
+ * @internal
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
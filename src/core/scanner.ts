@@ -0,0 +1,381 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * File scanner
+ *
+ * Walks files and directories, honouring `.gitignore` and
+ * `.masktokenignore`, and reports the tokens found on each line with
+ * their location and a masked preview. Binary and oversized files are
+ * skipped.
+ *
+ * @module core/scanner
+ */
+
+import { readFile, readdir, stat } from "node:fs/promises";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import type {
+  RedactionFinding,
+  ScanFinding,
+  ScanOptions,
+  ScanResult,
+} from "../types";
+import { redactText } from "./redactor";
+import { fingerprintToken } from "./fingerprint";
+import { isIgnored, parseIgnoreFile } from "../utils/ignore";
+import type { IgnoreRule } from "../utils/ignore";
+import {
+  BASELINE_HASH_LENGTH,
+  BINARY_SNIFF_LENGTH,
+  DEFAULT_SCAN_IGNORE_FILES,
+  INLINE_IGNORE_LINE_PATTERN,
+  INLINE_IGNORE_PATTERN,
+  MAX_SCAN_FILE_SIZE,
+  MAX_SNIPPET_LENGTH,
+} from "../utils/constants";
+
+/**
+ * State shared while walking the given paths
+ *
+ * @internal
+ */
+interface ScanContext {
+  options: ScanOptions;
+  cwd: string;
+  ignoreFiles: readonly string[];
+  maxFileSize: number;
+  result: ScanResult;
+}
+
+// ============================================================================
+// SCANNING
+// ============================================================================
+
+/**
+ * Scan files and directories for tokens
+ *
+ * Directories are walked recursively (symbolic links are not followed,
+ * `.git` is never entered). Ignore files apply in the directory they are
+ * in and below, including those between the enclosing git repository
+ * root and a scanned directory. Files named explicitly are always
+ * scanned.
+ *
+ * A `mask-token-ignore` comment suppresses the tokens on its line, or
+ * on the next line when the comment stands alone.
+ *
+ * @param paths - Files and directories to scan
+ * @param options - Detection, masking and walking options
+ * @returns Findings (with masked previews only) and file counts
+ * @throws Error if a path does not exist
+ *
+ * @example
+ * ```typescript
+ * const { findings } = await scanPaths(['.']);
+ * // [{ file: 'src/config.ts', line: 3, column: 15,
+ * //    type: 'GitHub Personal Access Token', masked: 'ghp_••••••••8JKK', ... }]
+ * ```
+ */
+export async function scanPaths(
+  paths: string[],
+  options: ScanOptions = {},
+): Promise<ScanResult> {
+  const {
+    cwd = process.cwd(),
+    ignoreFiles = DEFAULT_SCAN_IGNORE_FILES,
+    maxFileSize = MAX_SCAN_FILE_SIZE,
+    ...detectOptions
+  } = options;
+
+  const context: ScanContext = {
+    options: detectOptions,
+    cwd: resolve(cwd),
+    ignoreFiles,
+    maxFileSize,
+    result: { findings: [], filesScanned: 0, filesSkipped: 0, suppressed: 0 },
+  };
+
+  for (const path of paths) {
+    const absolute = resolve(context.cwd, path);
+    const stats = await stat(absolute).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") {
+        throw new Error(`Cannot scan ${path}: no such file or directory`);
+      }
+      throw error;
+    });
+
+    if (stats.isDirectory()) {
+      await walk(absolute, await loadParentRules(absolute, ignoreFiles), context);
+    } else if (stats.isFile()) {
+      await scanFile(absolute, stats.size, context);
+    }
+  }
+
+  return context.result;
+}
+
+/**
+ * Find the tokens on a single line
+ *
+ * Each finding's snippet is the line with every token on it masked,
+ * including those below `minConfidence`, so reports never carry a raw
+ * secret.
+ *
+ * @param text - Line content (without the line break)
+ * @param line - Line number to report
+ * @param file - File path to report
+ * @param options - Detection and masking options
+ * @returns Findings, in order of appearance
+ *
+ * @internal
+ */
+export function scanLine(
+  text: string,
+  line: number,
+  file: string,
+  options: ScanOptions = {},
+): ScanFinding[] {
+  const { hashKey, ...detectOptions } = options;
+  const { findings } = redactText(text, detectOptions);
+  if (findings.length === 0) {
+    return [];
+  }
+
+  const masked = redactText(text, { ...detectOptions, minConfidence: 0 });
+
+  return findings.map((finding) => ({
+    file,
+    line,
+    column: finding.offset + 1,
+    type: finding.type,
+    prefix: finding.prefix,
+    confidence: finding.confidence,
+    ...(finding.checksumValid !== undefined && {
+      checksumValid: finding.checksumValid,
+    }),
+    masked: finding.masked,
+    snippet: excerpt(masked.text, toMaskedOffset(finding.offset, masked.findings)),
+    ...(hashKey !== undefined && {
+      hash: fingerprintToken(
+        text.slice(finding.offset, finding.offset + finding.length),
+        { key: hashKey, length: BASELINE_HASH_LENGTH },
+      ),
+    }),
+  }));
+}
+
+/**
+ * Check for a `mask-token-ignore` comment on a line, or alone on the
+ * line above
+ *
+ * @param text - Line content
+ * @param previous - Content of the line above, if any
+ * @returns true if findings on the line are suppressed
+ *
+ * @internal
+ */
+export function isSuppressed(text: string, previous?: string): boolean {
+  return (
+    INLINE_IGNORE_PATTERN.test(text) ||
+    (previous !== undefined && INLINE_IGNORE_LINE_PATTERN.test(previous))
+  );
+}
+
+// ============================================================================
+// WALKING
+// ============================================================================
+
+/**
+ * Scan a directory recursively
+ *
+ * @internal
+ */
+async function walk(
+  directory: string,
+  inherited: IgnoreRule[],
+  context: ScanContext,
+): Promise<void> {
+  const rules = inherited.concat(await loadRules(directory, context.ignoreFiles));
+  const entries = await readdir(directory, { withFileTypes: true });
+  entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  for (const entry of entries) {
+    const path = join(directory, entry.name);
+    const isDirectory = entry.isDirectory();
+
+    if (
+      entry.isSymbolicLink() ||
+      (isDirectory && entry.name === ".git") ||
+      isIgnored(toPosix(path), isDirectory, rules)
+    ) {
+      continue;
+    }
+
+    if (isDirectory) {
+      await walk(path, rules, context);
+    } else if (entry.isFile()) {
+      await scanFile(path, (await stat(path)).size, context);
+    }
+  }
+}
+
+/**
+ * Scan a single file, unless it is binary or too large
+ *
+ * @internal
+ */
+async function scanFile(
+  path: string,
+  size: number,
+  context: ScanContext,
+): Promise<void> {
+  const { result } = context;
+  if (size > context.maxFileSize) {
+    result.filesSkipped++;
+    return;
+  }
+
+  const content = await readFile(path);
+  if (content.subarray(0, BINARY_SNIFF_LENGTH).includes(0)) {
+    result.filesSkipped++;
+    return;
+  }
+
+  result.filesScanned++;
+  const file = toPosix(relative(context.cwd, path));
+
+  content
+    .toString("utf8")
+    .split(/\r?\n/)
+    .forEach((text, index, lines) => {
+      const findings = scanLine(text, index + 1, file, context.options);
+
+      if (isSuppressed(text, lines[index - 1])) {
+        result.suppressed += findings.length;
+      } else {
+        result.findings.push(...findings);
+      }
+    });
+}
+
+// ============================================================================
+// IGNORE FILES
+// ============================================================================
+
+/**
+ * Load the ignore files of a directory
+ *
+ * @internal
+ */
+async function loadRules(
+  directory: string,
+  ignoreFiles: readonly string[],
+): Promise<IgnoreRule[]> {
+  const rules: IgnoreRule[] = [];
+
+  for (const name of ignoreFiles) {
+    const content = await readFile(join(directory, name), "utf8").catch(
+      () => null,
+    );
+    if (content !== null) {
+      rules.push(...parseIgnoreFile(content, toPosix(directory)));
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Load the ignore files above a directory, up to its git repository root
+ *
+ * Outside a git repository only the directory's own ignore files apply.
+ *
+ * @internal
+ */
+async function loadParentRules(
+  directory: string,
+  ignoreFiles: readonly string[],
+): Promise<IgnoreRule[]> {
+  const parents: string[] = [];
+  let current = directory;
+
+  while (!(await exists(join(current, ".git")))) {
+    const parent = dirname(current);
+    if (parent === current) {
+      return [];
+    }
+    parents.unshift(parent);
+    current = parent;
+  }
+
+  const rules: IgnoreRule[] = [];
+  for (const parent of parents) {
+    rules.push(...(await loadRules(parent, ignoreFiles)));
+  }
+  return rules;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Translate an offset in a line to the same position in its masked form
+ *
+ * @internal
+ */
+function toMaskedOffset(
+  offset: number,
+  findings: RedactionFinding[],
+): number {
+  let shift = 0;
+  for (const finding of findings) {
+    if (finding.offset >= offset) {
+      break;
+    }
+    shift += finding.masked.length - finding.length;
+  }
+  return offset + shift;
+}
+
+/**
+ * Trim a masked line, cutting long lines around the token at `offset`
+ *
+ * @internal
+ */
+function excerpt(text: string, offset: number): string {
+  if (text.length <= MAX_SNIPPET_LENGTH) {
+    return text.trim();
+  }
+
+  // Keep some context before the token
+  const start = Math.max(
+    0,
+    Math.min(offset - MAX_SNIPPET_LENGTH / 4, text.length - MAX_SNIPPET_LENGTH),
+  );
+  const end = start + MAX_SNIPPET_LENGTH;
+  return (
+    (start > 0 ? "…" : "") +
+    text.slice(start, end).trim() +
+    (end < text.length ? "…" : "")
+  );
+}
+
+/**
+ * Check whether a path exists
+ *
+ * @internal
+ */
+async function exists(path: string): Promise<boolean> {
+  return stat(path).then(
+    () => true,
+    () => false,
+  );
+}
+
+/**
+ * Convert a platform path to `/` separators
+ *
+ * @internal
+ */
+function toPosix(path: string): string {
+  return sep === "/" ? path : path.split(sep).join("/");
+}
@@ -0,0 +1,171 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Self-masking secret wrapper
+ *
+ * A `Secret` holds a raw value but renders as its masked form wherever
+ * it is converted to text: string conversion, template literals,
+ * `JSON.stringify`, `console.log` and `util.inspect`. The raw value is
+ * only available through `reveal()`.
+ *
+ * @module core/secret
+ */
+
+import type { MaskOptions, MaskResult, TokenMetadata } from "../types";
+import { mask } from "./masker";
+import { sha256 } from "../utils/sha256";
+
+/**
+ * Raw values, kept outside the instances so that no property, spread,
+ * `structuredClone` or debugger view of a `Secret` exposes them
+ *
+ * @internal
+ */
+const rawValues = new WeakMap<Secret<unknown>, unknown>();
+
+/**
+ * Key `util.inspect` looks up for custom output (same as `inspect.custom`)
+ */
+const INSPECT_CUSTOM = Symbol.for("nodejs.util.inspect.custom");
+
+// ============================================================================
+// SECRET CLASS
+// ============================================================================
+
+/**
+ * A value that masks itself whenever it is printed or serialised
+ *
+ * The masked form is computed once with `maskToken()` and the given
+ * options (use `preset` to pick a profile). Non-string values are
+ * masked in their JSON form.
+ *
+ * @example
+ * ```typescript
+ * const config = {
+ *   registry: 'https://registry.npmjs.org',
+ *   token: new Secret(process.env.NPM_TOKEN!, { preset: 'strict' })
+ * };
+ *
+ * console.log(config);
+ * // { registry: 'https://registry.npmjs.org', token: npm_••••••••••••i9j0 }
+ * JSON.stringify(config);
+ * // '{"registry":"https://registry.npmjs.org","token":"npm_••••••••••••i9j0"}'
+ *
+ * await publish({ token: config.token.reveal() });
+ * ```
+ */
+export class Secret<T = string> {
+  /**
+   * Masked form of the value
+   */
+  readonly masked: string;
+
+  /**
+   * Token type detected for the value
+   */
+  readonly metadata: TokenMetadata;
+
+  /**
+   * Wrap a raw value
+   *
+   * @param value - Raw value
+   * @param options - Masking options for the rendered form
+   */
+  constructor(value: T, options: MaskOptions = {}) {
+    const result = mask(toText(value), {
+      ...options,
+      includeMetadata: true,
+    }) as MaskResult;
+
+    this.masked = result.masked;
+    this.metadata = result.metadata;
+    rawValues.set(this, value);
+    Object.freeze(this);
+  }
+
+  /**
+   * Return the raw value
+   *
+   * Call it only where the value is actually used (an HTTP client, a
+   * database driver), never to log it.
+   *
+   * @returns The wrapped value
+   */
+  reveal(): T {
+    return rawValues.get(this) as T;
+  }
+
+  /**
+   * Compare with another secret or raw value in constant time
+   *
+   * Both sides are hashed first, so the comparison time depends on
+   * neither the contents nor the lengths of the values.
+   *
+   * @param other - Secret or raw value to compare with
+   * @returns true if the raw values are equal
+   *
+   * @example
+   * ```typescript
+   * const expected = new Secret(process.env.WEBHOOK_TOKEN!);
+   * if (!expected.equals(req.headers['x-webhook-token'] ?? '')) {
+   *   throw new Error('Invalid webhook token');
+   * }
+   * ```
+   */
+  equals(other: Secret<T> | T): boolean {
+    const otherValue = other instanceof Secret ? other.reveal() : other;
+    const a = sha256(toText(this.reveal()));
+    const b = sha256(toText(otherValue));
+
+    let difference = 0;
+    for (let i = 0; i < a.length; i++) {
+      difference |= a[i] ^ b[i];
+    }
+    return difference === 0;
+  }
+
+  /**
+   * Masked form (string conversion)
+   */
+  toString(): string {
+    return this.masked;
+  }
+
+  /**
+   * Masked form (`JSON.stringify`)
+   */
+  toJSON(): string {
+    return this.masked;
+  }
+
+  /**
+   * Masked form (template literals, `+` and numeric coercion)
+   */
+  [Symbol.toPrimitive](): string {
+    return this.masked;
+  }
+
+  /**
+   * Masked form (`console.log`, `util.inspect`)
+   */
+  [INSPECT_CUSTOM](): string {
+    return this.masked;
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Text form of a raw value, as masked and compared
+ *
+ * @internal
+ */
+function toText(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
@@ -0,0 +1,271 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Streaming redaction
+ *
+ * Masks tokens as chunks flow through a WHATWG `TransformStream`.
+ * Tokens split across chunk boundaries are held back in a bounded tail
+ * buffer until complete. The Node `Transform` variant lives in
+ * `core/node-stream`.
+ *
+ * @module core/stream-redactor
+ */
+
+import type { RedactStreamOptions } from "../types";
+import { redactText } from "./redactor";
+import {
+  findOpenPrivateKey,
+  findPrivateKeyBlocks,
+  findPrivateKeyEnd,
+} from "./private-key";
+import type { PrivateKeyBlock } from "./private-key";
+import {
+  DEFAULT_FIXED_LENGTH,
+  DEFAULT_MASK_CHAR,
+  MAX_PRIVATE_KEY_LENGTH,
+  MAX_TOKEN_LENGTH,
+  TOKEN_CHAR_PATTERN,
+} from "../utils/constants";
+
+/**
+ * Characters kept while dropping an overlong key, so an end marker
+ * split across chunks is still found
+ */
+const PRIVATE_KEY_END_OVERLAP = 128;
+
+/**
+ * Incremental redactor shared by the Node and web stream variants
+ *
+ * @internal
+ */
+export interface ChunkRedactor {
+  /**
+   * Add a chunk, returning the text that is safe to emit
+   */
+  push(chunk: string): string;
+
+  /**
+   * Redact and return whatever is still held back
+   */
+  flush(): string;
+}
+
+// ============================================================================
+// STREAM FACTORIES
+// ============================================================================
+
+/**
+ * Create a WHATWG `TransformStream` that masks tokens in the data flowing through it
+ *
+ * Accepts string or `Uint8Array` chunks and emits redacted strings.
+ *
+ * @param options - `redactText()` options plus `maxTokenLength`
+ * @returns TransformStream
+ *
+ * @example
+ * ```typescript
+ * import { createWebRedactionStream } from 'mask-token';
+ *
+ * const response = await fetch(logUrl);
+ * const redacted = response.body!.pipeThrough(createWebRedactionStream());
+ * ```
+ */
+export function createWebRedactionStream(
+  options: RedactStreamOptions = {},
+): TransformStream<string | Uint8Array, string> {
+  const redactor = createChunkRedactor(options);
+  const decoder = new TextDecoder();
+
+  return new TransformStream<string | Uint8Array, string>({
+    transform(chunk, controller) {
+      const text =
+        typeof chunk === "string"
+          ? chunk
+          : decoder.decode(chunk, { stream: true });
+      const output = redactor.push(text);
+      if (output.length > 0) {
+        controller.enqueue(output);
+      }
+    },
+    flush(controller) {
+      const output = redactor.push(decoder.decode()) + redactor.flush();
+      if (output.length > 0) {
+        controller.enqueue(output);
+      }
+    },
+  });
+}
+
+// ============================================================================
+// INCREMENTAL REDACTION
+// ============================================================================
+
+/**
+ * Create an incremental redactor with a bounded tail buffer
+ *
+ * Each push emits everything up to the last separator character, so no
+ * candidate token is ever cut in half. The trailing run of token
+ * characters is held back; if it grows beyond `maxTokenLength` it is
+ * replaced by a fixed-length mask, and the rest of the run is dropped up
+ * to the next separator, so memory stays constant and no fragment of an
+ * overlong token is emitted.
+ *
+ * Private key blocks are held back from their header (or the start of
+ * the token run it is glued to) until complete.
+ * A block longer than `MAX_PRIVATE_KEY_LENGTH` is masked as truncated
+ * and the rest of its key material is dropped up to its end marker.
+ *
+ * @param options - Redaction options
+ * @param redact - Replaces `redactText()` on complete text (the console
+ *   guard uses it to apply its allow-list)
+ * @returns Chunk redactor
+ *
+ * @internal
+ */
+export function createChunkRedactor(
+  options: RedactStreamOptions = {},
+  redact?: (text: string) => string,
+): ChunkRedactor {
+  const { maxTokenLength = MAX_TOKEN_LENGTH, ...redactOptions } = options;
+  const redactChunk =
+    redact ?? ((text: string) => redactText(text, redactOptions).text);
+  const overflowMask = (redactOptions.maskChar ?? DEFAULT_MASK_CHAR).repeat(
+    typeof redactOptions.fixedLength === "number"
+      ? redactOptions.fixedLength
+      : DEFAULT_FIXED_LENGTH,
+  );
+  let held = "";
+  let droppedKey: PrivateKeyBlock | null = null;
+  let droppingRun = false;
+
+  return {
+    push(chunk: string): string {
+      if (chunk.length === 0) {
+        return "";
+      }
+
+      let buffer = held + chunk;
+      held = "";
+
+      if (droppedKey) {
+        const end = findPrivateKeyEnd(buffer, droppedKey);
+        if (end === -1) {
+          // Keep enough to recognise an end marker split across chunks
+          held = buffer.slice(-PRIVATE_KEY_END_OVERLAP);
+          return "";
+        }
+        droppedKey = null;
+        buffer = buffer.slice(end);
+      }
+
+      if (droppingRun) {
+        const end = overlongRunEnd(buffer);
+        const keyStart = findOpenPrivateKey(buffer);
+        if (end === -1 || (keyStart !== -1 && keyStart < end)) {
+          // Keep a key header that may be split across chunks
+          held = keyStart === -1 ? "" : buffer.slice(keyStart);
+          return "";
+        }
+        droppingRun = false;
+        buffer = buffer.slice(end);
+      }
+
+      let keyStart = findOpenPrivateKey(buffer);
+      if (keyStart !== -1) {
+        // A trailing `-` or `P` may end a token rather than start a
+        // header: hold from the start of the token run it belongs to
+        keyStart = lastSeparatorIndex(buffer.slice(0, keyStart)) + 1;
+        let output = keyStart > 0 ? redactChunk(buffer.slice(0, keyStart)) : "";
+        held = buffer.slice(keyStart);
+
+        if (held.length > MAX_PRIVATE_KEY_LENGTH) {
+          const [block] = findPrivateKeyBlocks(held);
+          output += redactChunk(held);
+          held = "";
+          droppedKey = block && !block.terminated ? block : null;
+        }
+
+        return output;
+      }
+
+      // Never cut through a complete key block that ends in token characters
+      const blocks = findPrivateKeyBlocks(buffer);
+      const lastBlock = blocks[blocks.length - 1];
+      const boundary = Math.max(
+        lastSeparatorIndex(buffer),
+        lastBlock ? lastBlock.offset + lastBlock.length - 1 : -1,
+      );
+      const ready = buffer.slice(0, boundary + 1);
+      held = buffer.slice(boundary + 1);
+
+      let output = ready.length > 0 ? redactChunk(ready) : "";
+
+      if (held.length > maxTokenLength) {
+        output += overflowMask;
+        held = "";
+        droppingRun = true;
+      }
+
+      return output;
+    },
+
+    flush(): string {
+      const output = held.length > 0 && !droppedKey ? redactChunk(held) : "";
+      held = "";
+      droppedKey = null;
+      droppingRun = false;
+      return output;
+    },
+  };
+}
+
+/**
+ * Find the index of the last character that cannot be part of a token
+ *
+ * @param text - Buffered text
+ * @returns Index of the last separator, or -1 if there is none
+ *
+ * @internal
+ */
+function lastSeparatorIndex(text: string): number {
+  for (let i = text.length - 1; i >= 0; i--) {
+    if (!TOKEN_CHAR_PATTERN.test(text[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find the index of the first character that cannot be part of a token
+ *
+ * @param text - Buffered text
+ * @returns Index of the first separator, or -1 if there is none
+ *
+ * @internal
+ */
+function firstSeparatorIndex(text: string): number {
+  for (let i = 0; i < text.length; i++) {
+    if (!TOKEN_CHAR_PATTERN.test(text[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find where the text after an overlong token run resumes
+ *
+ * @param text - Text following the part of the run already dropped
+ * @returns Offset of the first separator or private key block, or -1
+ *   if the run continues to the end of the text
+ *
+ * @internal
+ */
+function overlongRunEnd(text: string): number {
+  const [block] = findPrivateKeyBlocks(text);
+  const separator = firstSeparatorIndex(text);
+  return block && (separator === -1 || block.offset < separator)
+    ? block.offset
+    : separator;
+}
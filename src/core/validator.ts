@@ -19,6 +19,8 @@ import {
   WARNING_MESSAGES,
   VALIDATION_SUGGESTIONS,
 } from "../utils/constants";
+import { parsePan } from "../utils/card";
+import { decodeJwt, getJwtWarnings } from "./jwt";
 
 // ============================================================================
 // MAIN VALIDATION FUNCTION
@@ -134,6 +136,24 @@ export function validateInput(
     }
   }
 
+  // ============================================================================
+  // JWT CHECKS
+  // ============================================================================
+
+  const jwt = checkJwt(input);
+  warnings.push(...jwt.warnings);
+  riskScore += jwt.riskScore;
+
+  // ============================================================================
+  // PAYMENT CARD CHECK
+  // ============================================================================
+
+  const pan = parsePan(input);
+  if (pan) {
+    warnings.push(WARNING_MESSAGES.LOOKS_LIKE_PAN(pan.brand));
+    riskScore += RISK_WEIGHTS.LOOKS_LIKE_PAN;
+  }
+
   // ============================================================================
   // HEURISTIC CHECKS
   // ============================================================================
@@ -189,10 +209,65 @@ export function validateInput(
   };
 }
 
+/**
+ * Validate a JWT for unsafe or stale properties only
+ *
+ * Used by claims-aware `jwt` mode when `warnIfPlain` is off: flags
+ * `alg: none` and expired tokens without the general heuristics.
+ *
+ * @param input - JWT string
+ * @returns Validation result (valid if the input is not a decodable JWT)
+ *
+ * @example
+ * ```typescript
+ * validateJwt(expiredJwt);
+ * // {
+ * //   valid: false,
+ * //   warnings: ['JWT expired at 2020-01-01T00:00:00Z'],
+ * //   suggestions: ["Refresh the token or check the issuer's clock"],
+ * //   riskScore: 20
+ * // }
+ * ```
+ */
+export function validateJwt(input: string): ValidationResult {
+  const { warnings, riskScore } = checkJwt(input);
+
+  return {
+    valid: warnings.length === 0,
+    warnings,
+    suggestions: generateSuggestions(warnings),
+    riskScore: Math.min(100, riskScore),
+  };
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Collect JWT warnings and their risk if the input decodes as a JWT
+ *
+ * @internal
+ */
+function checkJwt(input: string): { warnings: string[]; riskScore: number } {
+  const decoded = decodeJwt(input);
+  if (!decoded) {
+    return { warnings: [], riskScore: 0 };
+  }
+
+  const warnings = getJwtWarnings(decoded);
+  const riskScore = warnings.reduce(
+    (score, warning) =>
+      score +
+      (warning === WARNING_MESSAGES.JWT_ALG_NONE
+        ? RISK_WEIGHTS.JWT_ALG_NONE
+        : RISK_WEIGHTS.JWT_EXPIRED),
+    0,
+  );
+
+  return { warnings, riskScore };
+}
+
 /**
  * Calculate entropy (character diversity) of a string
  *
@@ -278,6 +353,12 @@ export function generateSuggestions(warnings: string[]): string[] {
       suggestion = VALIDATION_SUGGESTIONS.WRONG_CREDENTIAL_TYPE;
     } else if (warning.includes("entropy") || warning.includes("diversity")) {
       suggestion = VALIDATION_SUGGESTIONS.LOW_ENTROPY;
+    } else if (warning.includes("payment card")) {
+      suggestion = VALIDATION_SUGGESTIONS.LOOKS_LIKE_PAN;
+    } else if (warning.includes('alg "none"')) {
+      suggestion = VALIDATION_SUGGESTIONS.JWT_ALG_NONE;
+    } else if (warning.includes("expired")) {
+      suggestion = VALIDATION_SUGGESTIONS.JWT_EXPIRED;
     }
 
     if (suggestion && !suggestionSet.has(suggestion)) {
@@ -0,0 +1,40 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Vault storage adapters
+ *
+ * Built-in in-memory `VaultStorage` for tests and short-lived
+ * processes. The JSON file adapter lives in `core/file-vault-storage`
+ * because it needs `node:fs`.
+ *
+ * @module core/vault-storage
+ */
+
+import type { VaultRecord, VaultStorage } from "../types";
+
+// ============================================================================
+// STORAGE ADAPTERS
+// ============================================================================
+
+/**
+ * Create an in-memory vault storage
+ *
+ * Records are lost when the process exits.
+ *
+ * @returns Storage adapter
+ *
+ * @example
+ * ```typescript
+ * const vault = createVault({ key, storage: createMemoryVaultStorage() });
+ * ```
+ */
+export function createMemoryVaultStorage(): VaultStorage {
+  const records = new Map<string, VaultRecord>();
+
+  return {
+    get: (id) => records.get(id),
+    set: (id, record) => {
+      records.set(id, record);
+    },
+  };
+}
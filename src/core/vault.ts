@@ -0,0 +1,303 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Reversible tokenization vault
+ *
+ * Replaces secrets with opaque `tok_v1_` references that privileged code
+ * can resolve later. The reference is a keyed HMAC of the secret, so the
+ * same secret always gets the same reference; the secret itself is
+ * stored encrypted with AES-256-GCM through a pluggable storage adapter.
+ * All cryptography goes through WebCrypto, so the vault runs in Node,
+ * browsers and edge runtimes alike.
+ *
+ * @module core/vault
+ */
+
+import type {
+  MaskOptions,
+  Vault,
+  VaultOptions,
+  VaultRecord,
+  VaultToken,
+} from "../types";
+import { mask } from "./masker";
+import { createMemoryVaultStorage } from "./vault-storage";
+import {
+  decodeBase64UrlBytes,
+  encodeBase32,
+  encodeBase64Url,
+} from "../utils/encoding";
+import {
+  VAULT_ID_LENGTH,
+  VAULT_IV_LENGTH,
+  VAULT_REFERENCE_PATTERN,
+  VAULT_REFERENCE_PREFIX,
+  VAULT_TAG_LENGTH,
+} from "../utils/constants";
+
+// ============================================================================
+// VAULT FACTORY
+// ============================================================================
+
+/**
+ * Create a tokenization vault
+ *
+ * `tokenize()` stores the encrypted secret and returns its reference
+ * together with the masked secret; `detokenize()` decrypts it again.
+ * Keep detokenization behind your own authorisation checks: anyone
+ * with the key and the storage can resolve every reference.
+ *
+ * @param options - Vault key, storage adapter and masking options
+ * @returns Vault
+ * @throws Error if the key is empty (`tokenize()` and `detokenize()`
+ *   reject if WebCrypto is unavailable)
+ *
+ * @example
+ * ```typescript
+ * const vault = createVault({ key: process.env.VAULT_KEY! });
+ *
+ * const { id, text } = await vault.tokenize('npm_a1b2c3d4e5f6g7h8i9j0');
+ * logger.info(`publish with ${text}`);
+ * // publish with npm_••••••••i9j0 (tok_v1_MZXW6YTBOI2DGNBVGY3TQOJQGE)
+ *
+ * await vault.detokenize(id);
+ * // → 'npm_a1b2c3d4e5f6g7h8i9j0'
+ * ```
+ */
+export function createVault(options: VaultOptions): Vault {
+  const { key, storage = createMemoryVaultStorage(), ...maskOptions } = options;
+  if (key === undefined || key === null || key.length === 0) {
+    throw new Error("Vault key must not be empty");
+  }
+
+  let keys: Promise<VaultKeys> | null = null;
+  const deriveKeys = () => (keys ??= deriveVaultKeys(key));
+
+  const maskWith: MaskOptions = {
+    mode: "standard",
+    ...maskOptions,
+    includeMetadata: false,
+  };
+
+  return {
+    async tokenize(secret: string): Promise<VaultToken> {
+      if (typeof secret !== "string" || secret.length === 0) {
+        throw new Error("Vault secret must be a non-empty string");
+      }
+
+      const keys = await deriveKeys();
+      const digest = await keys.crypto.subtle.sign(
+        "HMAC",
+        keys.idKey,
+        encodeText(secret),
+      );
+      const id =
+        VAULT_REFERENCE_PREFIX +
+        encodeBase32(new Uint8Array(digest)).slice(0, VAULT_ID_LENGTH);
+
+      if (!(await storage.get(id))) {
+        await storage.set(id, await encrypt(secret, id, keys));
+      }
+
+      const masked = mask(secret, maskWith) as string;
+      return { id, masked, text: `${masked} (${id})` };
+    },
+
+    async detokenize(id: string): Promise<string | null> {
+      if (!isVaultReference(id)) {
+        throw new Error(`Invalid vault reference: ${String(id)}`);
+      }
+
+      const keys = await deriveKeys();
+      const record = await storage.get(id);
+      return record ? decrypt(record, id, keys) : null;
+    },
+  };
+}
+
+/**
+ * Check whether a string is a vault reference
+ *
+ * Vault references are not secrets: `maskToken()` and the redactors
+ * leave them unchanged so they can still be resolved.
+ *
+ * @param input - String to check
+ * @returns true for a complete `tok_v1_` reference
+ *
+ * @example
+ * ```typescript
+ * isVaultReference('tok_v1_MZXW6YTBOI2DGNBVGY3TQOJQGE'); // true
+ * isVaultReference('tok_v1_abc');                         // false
+ * ```
+ */
+export function isVaultReference(input: string): boolean {
+  return typeof input === "string" && VAULT_REFERENCE_PATTERN.test(input);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Subkeys derived from the vault key
+ *
+ * @internal
+ */
+interface VaultKeys {
+  crypto: Crypto;
+  idKey: CryptoKey;
+  encryptionKey: CryptoKey;
+}
+
+/**
+ * Get the WebCrypto API
+ *
+ * Node 18 only exposes it as `webcrypto` of `node:crypto`. The module
+ * name is kept out of the `import()` literal so bundlers targeting
+ * browsers do not try to resolve it.
+ *
+ * @throws Error if WebCrypto is unavailable
+ *
+ * @internal
+ */
+async function loadWebCrypto(): Promise<Crypto> {
+  if (globalThis.crypto?.subtle) {
+    return globalThis.crypto;
+  }
+
+  const nodeCrypto = "node:crypto";
+  try {
+    const { webcrypto } = await import(/* @vite-ignore */ nodeCrypto);
+    if (webcrypto?.subtle) {
+      return webcrypto as Crypto;
+    }
+  } catch {
+    // Not Node: fall through
+  }
+  throw new Error("WebCrypto is not available in this environment");
+}
+
+/**
+ * Derive the reference (HMAC-SHA256) and encryption (AES-256-GCM)
+ * subkeys from the vault key with HKDF-SHA256
+ *
+ * @internal
+ */
+async function deriveVaultKeys(key: string | Uint8Array): Promise<VaultKeys> {
+  const crypto = await loadWebCrypto();
+  const { subtle } = crypto;
+  const material = await subtle.importKey(
+    "raw",
+    typeof key === "string" ? encodeText(key) : new Uint8Array(key),
+    "HKDF",
+    false,
+    ["deriveKey"],
+  );
+  const hkdf = (info: string) => ({
+    name: "HKDF",
+    hash: "SHA-256",
+    salt: new Uint8Array(0),
+    info: encodeText(info),
+  });
+
+  const [idKey, encryptionKey] = await Promise.all([
+    subtle.deriveKey(
+      hkdf("mask-token vault v1 id"),
+      material,
+      { name: "HMAC", hash: "SHA-256", length: 256 },
+      false,
+      ["sign"],
+    ),
+    subtle.deriveKey(
+      hkdf("mask-token vault v1 encryption"),
+      material,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    ),
+  ]);
+  return { crypto, idKey, encryptionKey };
+}
+
+/**
+ * Encrypt a secret, authenticating the reference it is stored under
+ *
+ * @internal
+ */
+async function encrypt(
+  secret: string,
+  id: string,
+  { crypto, encryptionKey }: VaultKeys,
+): Promise<VaultRecord> {
+  const iv = crypto.getRandomValues(new Uint8Array(VAULT_IV_LENGTH));
+  const sealed = new Uint8Array(
+    await crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: encodeText(id),
+        tagLength: VAULT_TAG_LENGTH * 8,
+      },
+      encryptionKey,
+      encodeText(secret),
+    ),
+  );
+
+  // WebCrypto appends the tag to the ciphertext
+  return {
+    iv: encodeBase64Url(iv),
+    data: encodeBase64Url(sealed.subarray(0, sealed.length - VAULT_TAG_LENGTH)),
+    tag: encodeBase64Url(sealed.subarray(sealed.length - VAULT_TAG_LENGTH)),
+  };
+}
+
+/**
+ * Decrypt a record stored under a reference
+ *
+ * @throws Error if the record was modified, moved or encrypted with
+ *   another key
+ *
+ * @internal
+ */
+async function decrypt(
+  record: VaultRecord,
+  id: string,
+  { crypto, encryptionKey }: VaultKeys,
+): Promise<string> {
+  const iv = decodeBase64UrlBytes(record.iv);
+  const data = decodeBase64UrlBytes(record.data);
+  const tag = decodeBase64UrlBytes(record.tag);
+
+  try {
+    if (iv?.length !== VAULT_IV_LENGTH || tag?.length !== VAULT_TAG_LENGTH || !data) {
+      throw new Error("Malformed record");
+    }
+
+    const sealed = new Uint8Array(data.length + VAULT_TAG_LENGTH);
+    sealed.set(data);
+    sealed.set(tag, data.length);
+
+    const plain = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: new Uint8Array(iv),
+        additionalData: encodeText(id),
+        tagLength: VAULT_TAG_LENGTH * 8,
+      },
+      encryptionKey,
+      sealed,
+    );
+    return new TextDecoder("utf-8", { fatal: true }).decode(plain);
+  } catch {
+    throw new Error(`Vault record ${id} failed authentication`);
+  }
+}
+
+/**
+ * UTF-8 bytes of a string
+ *
+ * @internal
+ */
+function encodeText(text: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(text);
+}
@@ -0,0 +1,192 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Node entry point (`mask-token/node`)
+ *
+ * Features built on Node built-ins (streams, the file system, `git`,
+ * `process.stdout`). The main entry stays free of them so it bundles for
+ * browsers and edge runtimes.
+ *
+ * @packageDocumentation
+ *
+ * @example
+ * ```typescript
+ * import { maskToken } from 'mask-token';
+ * import { createRedactionStream, scanPaths } from 'mask-token/node';
+ *
+ * child.stdout.pipe(createRedactionStream()).pipe(process.stdout);
+ * const { findings } = await scanPaths(['src']);
+ * ```
+ */
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+import { createRedactionStream } from "./core/node-stream";
+
+export {
+  /**
+   * Create a Node Transform stream that masks tokens as data flows through
+   *
+   * @param options - `redactText()` options plus `maxTokenLength`
+   * @returns Transform stream (Buffer/string in, redacted string out)
+   *
+   * @example
+   * ```typescript
+   * import { createRedactionStream } from 'mask-token/node';
+   *
+   * child.stdout.pipe(createRedactionStream()).pipe(process.stdout);
+   * ```
+   */
+  createRedactionStream,
+};
+
+// ============================================================================
+// CONSOLE GUARD
+// ============================================================================
+
+import { installConsoleGuard } from "./core/console-guard";
+
+export {
+  /**
+   * Patch `console.*` (and optionally `process.stdout.write`) to redact output
+   *
+   * @param options - Methods to patch, allow-list and masking options
+   * @returns Handle with `uninstall()`
+   *
+   * @example
+   * ```typescript
+   * import { installConsoleGuard } from 'mask-token/node';
+   *
+   * const guard = installConsoleGuard({ preset: 'strict' });
+   * console.log('token:', process.env.GITHUB_TOKEN); // token: ghp_••••••••••••8JKK
+   * guard.uninstall();
+   * ```
+   */
+  installConsoleGuard,
+};
+
+// ============================================================================
+// VAULT
+// ============================================================================
+
+import { createFileVaultStorage } from "./core/file-vault-storage";
+
+export {
+  /**
+   * Vault storage kept in a JSON file (owner-readable only)
+   *
+   * @param path - Path of the JSON file
+   * @returns Storage adapter
+   *
+   * @example
+   * ```typescript
+   * import { createVault } from 'mask-token';
+   * import { createFileVaultStorage } from 'mask-token/node';
+   *
+   * createVault({ key, storage: createFileVaultStorage('./vault.json') });
+   * ```
+   */
+  createFileVaultStorage,
+};
+
+// ============================================================================
+// SCANNING
+// ============================================================================
+
+import { scanPaths } from "./core/scanner";
+import { scanStagedChanges, scanCommitRange } from "./core/git-scanner";
+
+export {
+  /**
+   * Scan files and directories for tokens
+   *
+   * Honours `.gitignore` and `.masktokenignore`, skips binary and
+   * oversized files, and reports each token with its location and a
+   * masked preview - never the raw secret.
+   *
+   * @param paths - Files and directories to scan
+   * @param options - Detection, masking and walking options
+   * @returns Findings and file counts
+   *
+   * @example
+   * ```typescript
+   * import { scanPaths } from 'mask-token/node';
+   *
+   * const { findings } = await scanPaths(['src'], { minConfidence: 0.9 });
+   * for (const f of findings) {
+   *   console.log(`${f.file}:${f.line}:${f.column} ${f.type} ${f.masked}`);
+   * }
+   * ```
+   */
+  scanPaths,
+
+  /**
+   * Scan the lines added by the staged changes (`git diff --cached`)
+   *
+   * Runs the local `git` binary; never contacts a remote.
+   *
+   * @param options - Repository directory (`cwd`), detection and masking options
+   * @returns Findings and counts
+   *
+   * @example
+   * ```typescript
+   * import { scanStagedChanges } from 'mask-token/node';
+   *
+   * const { findings } = await scanStagedChanges();
+   * ```
+   */
+  scanStagedChanges,
+
+  /**
+   * Scan the lines added by each commit in a range
+   *
+   * Findings name the commit and its author.
+   *
+   * @param range - Revision range, e.g. 'origin/main..HEAD'
+   * @param options - Repository directory (`cwd`), detection and masking options
+   * @returns Findings and counts
+   *
+   * @example
+   * ```typescript
+   * import { scanCommitRange } from 'mask-token/node';
+   *
+   * const { findings } = await scanCommitRange('origin/main..HEAD');
+   * findings[0].commit; // '3f2a9c...'
+   * findings[0].author; // 'Sam <sam@example.com>'
+   * ```
+   */
+  scanCommitRange,
+};
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+import { runCli } from "./core/cli";
+
+export {
+  /**
+   * Run the `mask-token` CLI with the given arguments
+   *
+   * @param argv - Arguments after the executable and script path
+   * @param io - Streams to use (defaults to the process streams)
+   * @returns Exit code: 0 on success, 1 when `validate` or `scan` fails,
+   *   2 on invalid usage
+   *
+   * @example
+   * ```typescript
+   * import { runCli } from 'mask-token/node';
+   *
+   * process.exitCode = await runCli(['scan', 'src', '--format', 'sarif']);
+   * ```
+   */
+  runCli,
+};
+
+// ============================================================================
+// TYPE EXPORTS
+// ============================================================================
+
+export type { CliIO } from "./core/cli";
@@ -0,0 +1,105 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Checksum helpers for token formats that embed one
+ *
+ * @module utils/checksum
+ */
+
+import { BASE62_ALPHABET, CRC32_CHECKSUM_LENGTH } from "./constants";
+
+// ============================================================================
+// CRC32
+// ============================================================================
+
+/**
+ * CRC32 lookup table (IEEE 802.3 polynomial, reflected)
+ */
+const CRC32_TABLE: readonly number[] = (() => {
+  const table: number[] = [];
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table.push(c >>> 0);
+  }
+  return table;
+})();
+
+/**
+ * Compute the CRC32 of a string's UTF-8 bytes
+ *
+ * @param input - String to checksum
+ * @returns Unsigned 32-bit CRC
+ *
+ * @example
+ * ```typescript
+ * crc32('123456789'); // → 0xcbf43926
+ * ```
+ */
+export function crc32(input: string): number {
+  let crc = 0xffffffff;
+  for (const byte of new TextEncoder().encode(input)) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ============================================================================
+// BASE62
+// ============================================================================
+
+/**
+ * Encode a non-negative integer in base62, left-padded with `0`
+ *
+ * @param value - Integer to encode (up to 2^53)
+ * @param width - Minimum output length
+ * @returns Base62 string (`0-9A-Za-z`)
+ *
+ * @example
+ * ```typescript
+ * toBase62(61, 2); // → '0z'
+ * ```
+ */
+export function toBase62(value: number, width: number = 0): string {
+  let encoded = "";
+  let remaining = Math.floor(value);
+
+  do {
+    encoded = BASE62_ALPHABET[remaining % 62] + encoded;
+    remaining = Math.floor(remaining / 62);
+  } while (remaining > 0);
+
+  return encoded.padStart(width, BASE62_ALPHABET[0]);
+}
+
+// ============================================================================
+// TOKEN CHECKSUMS
+// ============================================================================
+
+/**
+ * Verify a CRC32/base62 checksum at the end of a token body
+ *
+ * Used by GitHub (`ghp_`, `gho_`, `ghu_`, `ghs_`, `ghr_`) and npm
+ * (`npm_`) tokens: the last 6 characters are the base62 CRC32 of the
+ * characters before them.
+ *
+ * @param body - Token without its prefix
+ * @returns true if the embedded checksum matches
+ *
+ * @example
+ * ```typescript
+ * verifyCrc32Base62('aBcD...30 chars...0Xy9Zq'); // → true / false
+ * ```
+ */
+export function verifyCrc32Base62(body: string): boolean {
+  if (body.length <= CRC32_CHECKSUM_LENGTH) {
+    return false;
+  }
+
+  const payload = body.slice(0, -CRC32_CHECKSUM_LENGTH);
+  const checksum = body.slice(-CRC32_CHECKSUM_LENGTH);
+
+  return toBase62(crc32(payload), CRC32_CHECKSUM_LENGTH) === checksum;
+}
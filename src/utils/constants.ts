@@ -6,7 +6,13 @@
  * @module utils/constants
  */
 
-import type { MaskOptions, MaskChar, SecurityLevel } from "../types";
+import type {
+  MaskOptions,
+  MaskChar,
+  PrefixDefinition,
+  ScanReportFormat,
+  SecurityLevel,
+} from "../types";
 
 // ============================================================================
 // DEFAULT MASKING OPTIONS
@@ -91,7 +97,15 @@ export const DEFAULT_INCLUDE_METADATA = false;
 export const DEFAULT_OPTIONS: Required<
   Omit<
     MaskOptions,
-    "preset" | "onWarning" | "customPrefixes" | "validators" | "segments"
+    | "preset"
+    | "onWarning"
+    | "customPrefixes"
+    | "registry"
+    | "jwt"
+    | "pan"
+    | "fingerprint"
+    | "validators"
+    | "segments"
   >
 > = {
   fixedLength: DEFAULT_FIXED_LENGTH,
@@ -151,6 +165,13 @@ export const PREDEFINED_MASK_CHARS: readonly MaskChar[] = [
   MASK_CHARACTERS.line.char,
 ] as const;
 
+/**
+ * Shortest run of mask characters that marks a string as already masked
+ *
+ * Masks are at least this long unless `fixedLength` is set lower.
+ */
+export const MIN_MASKED_RUN = 4;
+
 // ============================================================================
 // SECURITY LEVELS
 // ============================================================================
@@ -241,6 +262,9 @@ export const RISK_WEIGHTS = {
   WRONG_CREDENTIAL_TYPE: 40,
   MULTIPLE_SPACES: 35,
   LOW_ENTROPY: 35,
+  JWT_ALG_NONE: 50,
+  JWT_EXPIRED: 20,
+  LOOKS_LIKE_PAN: 60,
 } as const;
 
 // ============================================================================
@@ -302,6 +326,332 @@ export const VALID_TOKEN_CHARS_PATTERN = /^[A-Za-z0-9_.\-]+$/;
  */
 export const GENERIC_PREFIX_PATTERN = /^[a-z]{2,6}_/;
 
+/**
+ * Characters that end the literal start of a regex prefix pattern
+ */
+export const REGEX_METACHARACTER = /[\\^$.|?*+()[\]{}]/;
+
+// ============================================================================
+// TEXT REDACTION
+// ============================================================================
+
+/**
+ * Single character that can appear inside a token during text scanning
+ *
+ * Anything else (spaces, quotes, `=`, `:`, `,`) is a separator.
+ */
+export const TOKEN_CHAR_PATTERN = /[A-Za-z0-9_\-.]/;
+
+/**
+ * Candidate token pattern for free-text scanning
+ *
+ * Matches maximal runs of token characters, so `Bearer ghp_...` and
+ * `token=npm_...` yield the token on its own.
+ */
+export const TOKEN_CANDIDATE_PATTERN = new RegExp(
+  `${TOKEN_CHAR_PATTERN.source}+`,
+  "g",
+);
+
+/**
+ * Default minimum confidence for a candidate to be redacted
+ *
+ * Known prefixes with a plausible length score 0.8 or higher;
+ * prefixes on clearly too-short strings score 0.6 and are skipped.
+ */
+export const DEFAULT_MIN_CONFIDENCE = 0.8;
+
+// ============================================================================
+// OBJECT REDACTION
+// ============================================================================
+
+/**
+ * Key names treated as sensitive by `redactObject()`
+ *
+ * Compared after lowercasing and removing separators, and matched
+ * against the end of the key (`client_secret` matches `secret`).
+ */
+export const DEFAULT_SENSITIVE_KEYS: readonly string[] = [
+  "password",
+  "passwd",
+  "passphrase",
+  "secret",
+  "token",
+  "apikey",
+  "accesskey",
+  "secretkey",
+  "privatekey",
+  "authorization",
+  "cookie",
+  "sessionid",
+  "credentials",
+  "signature",
+] as const;
+
+// ============================================================================
+// HEADER REDACTION
+// ============================================================================
+
+/**
+ * Header names treated as sensitive by `redactHeaders()`
+ *
+ * Compared after lowercasing and removing separators, and matched
+ * against the end of the name (`X-Api-Key` matches `apikey`,
+ * `Ocp-Apim-Subscription-Key` matches `key`).
+ */
+export const DEFAULT_SENSITIVE_HEADERS: readonly string[] = [
+  "authorization",
+  "cookie",
+  "key",
+  "token",
+  "secret",
+  "password",
+  "signature",
+  "credentials",
+  "session",
+  "sessionid",
+] as const;
+
+/**
+ * Mask character `redactHeaders()` uses for `Headers` instances when
+ * the configured one (the default `•` included) is not a byte string
+ */
+export const HEADER_MASK_CHAR = "*";
+
+// ============================================================================
+// CHECKSUMS
+// ============================================================================
+
+/**
+ * Base62 alphabet used by embedded token checksums
+ */
+export const BASE62_ALPHABET =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+/**
+ * Length of a base62-encoded CRC32 checksum (GitHub, npm)
+ */
+export const CRC32_CHECKSUM_LENGTH = 6;
+
+// ============================================================================
+// FINGERPRINTS
+// ============================================================================
+
+/**
+ * RFC 4648 base32 alphabet used for token fingerprints
+ */
+export const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Default number of base32 characters in a token fingerprint (20 bits)
+ */
+export const DEFAULT_FINGERPRINT_LENGTH = 4;
+
+/**
+ * Longest fingerprint: a full HMAC-SHA256 digest in base32
+ */
+export const MAX_FINGERPRINT_LENGTH = 52;
+
+/**
+ * Separator between a masked token and its fingerprint
+ */
+export const FINGERPRINT_SEPARATOR = "#";
+
+// ============================================================================
+// VAULT
+// ============================================================================
+
+/**
+ * Prefix of vault references returned by `vault.tokenize()`
+ */
+export const VAULT_REFERENCE_PREFIX = "tok_v1_";
+
+/**
+ * Number of base32 characters in a vault reference ID (130 bits)
+ */
+export const VAULT_ID_LENGTH = 26;
+
+/**
+ * Bytes in the AES-GCM initialisation vector of a vault record
+ */
+export const VAULT_IV_LENGTH = 12;
+
+/**
+ * Bytes in the AES-GCM authentication tag of a vault record
+ */
+export const VAULT_TAG_LENGTH = 16;
+
+/**
+ * A complete vault reference
+ */
+export const VAULT_REFERENCE_PATTERN = new RegExp(
+  `^${VAULT_REFERENCE_PREFIX}[A-Z2-7]{${VAULT_ID_LENGTH}}$`,
+);
+
+// ============================================================================
+// SCANNING
+// ============================================================================
+
+/**
+ * Ignore files honoured by `scanPaths()` in every directory
+ */
+export const DEFAULT_SCAN_IGNORE_FILES: readonly string[] = [
+  ".gitignore",
+  ".masktokenignore",
+];
+
+/**
+ * Largest file scanned, in bytes (1 MiB)
+ */
+export const MAX_SCAN_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Bytes inspected for a NUL byte to recognise binary files (as git does)
+ */
+export const BINARY_SNIFF_LENGTH = 8000;
+
+/**
+ * Longest line excerpt kept as a finding's snippet; longer lines are
+ * cut around the token
+ */
+export const MAX_SNIPPET_LENGTH = 160;
+
+/**
+ * Comment directive that suppresses findings on its line, or on the
+ * next line when the comment stands on a line of its own:
+ * `// mask-token-ignore: <reason>`
+ */
+export const INLINE_IGNORE_PATTERN = /mask-token-ignore\b/;
+
+/**
+ * A line holding nothing but an ignore comment
+ */
+export const INLINE_IGNORE_LINE_PATTERN =
+  /^\s*(?:\/\/|\/\*|\*|#|--|;|<!--)\s*mask-token-ignore\b/;
+
+/**
+ * Current baseline format version
+ */
+export const BASELINE_VERSION = 1;
+
+/**
+ * Number of base32 characters in a baseline hash (160 bits)
+ */
+export const BASELINE_HASH_LENGTH = 32;
+
+/**
+ * Value hashed into `keyCheck` to recognise the baseline key
+ */
+export const BASELINE_KEY_CHECK = "mask-token-baseline";
+
+/**
+ * Output formats of `formatScanReport()`
+ */
+export const SCAN_REPORT_FORMATS: readonly ScanReportFormat[] = [
+  "table",
+  "ndjson",
+  "sarif",
+  "junit",
+];
+
+/**
+ * SARIF level and GitHub `security-severity` score by token category
+ *
+ * Tokens without a known category (custom prefixes registered without
+ * one) use `default`; private key blocks count as `key`.
+ */
+export const SCAN_SEVERITY: Record<
+  NonNullable<PrefixDefinition["category"]> | "default",
+  { level: "error" | "warning" | "note"; score: number }
+> = {
+  key: { level: "error", score: 9.5 },
+  secret: { level: "error", score: 9.0 },
+  card: { level: "error", score: 9.0 },
+  oauth: { level: "error", score: 8.0 },
+  api: { level: "error", score: 7.5 },
+  reference: { level: "note", score: 2.0 },
+  default: { level: "warning", score: 5.0 },
+};
+
+// ============================================================================
+// PAYMENT CARDS
+// ============================================================================
+
+/**
+ * Shortest and longest primary account numbers (ISO/IEC 7812)
+ */
+export const PAN_MIN_LENGTH = 12;
+export const PAN_MAX_LENGTH = 19;
+
+/**
+ * Leading digits (BIN/IIN) that PCI-DSS 3.4 allows to stay visible
+ */
+export const PAN_BIN_LENGTH = 6;
+
+/**
+ * Trailing digits that PCI-DSS 3.4 allows to stay visible
+ */
+export const PAN_LAST_DIGITS = 4;
+
+// ============================================================================
+// PRIVATE KEYS
+// ============================================================================
+
+/**
+ * Hex digits of the CRC32 body fingerprint shown in place of a
+ * private key body
+ */
+export const PRIVATE_KEY_FINGERPRINT_LENGTH = 8;
+
+/**
+ * Maximum number of characters a redaction stream holds back while
+ * waiting for the end of a private key block
+ *
+ * Covers RSA-4096 PEM keys and PGP keys with subkeys. Longer blocks are
+ * masked as unterminated and the rest of the key is dropped until its
+ * end marker.
+ */
+export const MAX_PRIVATE_KEY_LENGTH = 16384;
+
+// ============================================================================
+// CONNECTION STRINGS
+// ============================================================================
+
+/**
+ * URL query parameters and connection-string keys whose values are
+ * masked by `url` mode
+ *
+ * Compared after lowercasing and removing separators, so `X-Amz-Signature`
+ * matches `xamzsignature` and `Account Key` matches `accountkey`.
+ */
+export const SENSITIVE_CONNECTION_KEYS: readonly string[] = [
+  "password",
+  "passwd",
+  "pwd",
+  "pass",
+  "secret",
+  "clientsecret",
+  "token",
+  "accesstoken",
+  "refreshtoken",
+  "idtoken",
+  "authtoken",
+  "sessiontoken",
+  "securitytoken",
+  "apikey",
+  "key",
+  "accesskey",
+  "secretkey",
+  "accountkey",
+  "sharedaccesskey",
+  "sharedaccesssignature",
+  "sig",
+  "signature",
+  "xamzsignature",
+  "xamzsecuritytoken",
+  "xgoogsignature",
+] as const;
+
 // ============================================================================
 // SEGMENT MASKING DEFAULTS
 // ============================================================================
@@ -321,6 +671,50 @@ export const DEFAULT_SEGMENT_CHARS = 3;
  */
 export const JWT_SEGMENT_COUNT = 3;
 
+/**
+ * Expected number of segments in a compact JWE
+ * (header.encryptedKey.iv.ciphertext.tag)
+ */
+export const JWE_SEGMENT_COUNT = 5;
+
+/**
+ * JWT header and payload claims shown in clear by claims-aware JWT masking
+ *
+ * Identify the token and its lifetime without revealing who it belongs to.
+ */
+export const DEFAULT_JWT_SAFE_CLAIMS: readonly string[] = [
+  "alg",
+  "kid",
+  "typ",
+  "iss",
+  "aud",
+  "exp",
+  "iat",
+] as const;
+
+/**
+ * JWE protected header parameters shown in clear
+ */
+export const DEFAULT_JWE_SAFE_HEADERS: readonly string[] = [
+  "alg",
+  "enc",
+  "kid",
+  "typ",
+  "cty",
+  "zip",
+] as const;
+
+/**
+ * Minimum decoded size of a Branca token in bytes
+ * (version + timestamp + nonce + Poly1305 tag)
+ */
+export const BRANCA_MIN_BYTES = 1 + 4 + 24 + 16;
+
+/**
+ * Version byte that starts every Branca token
+ */
+export const BRANCA_VERSION = 0xba;
+
 // ============================================================================
 // ERROR MESSAGES
 // ============================================================================
@@ -359,6 +753,10 @@ export const WARNING_MESSAGES = {
   PATTERN_MISMATCH: "Does not match expected pattern",
   CUSTOM_CHECK_FAILED: "Failed custom validation",
   LOW_ENTROPY: "Low character diversity (might not be a token)",
+  JWT_ALG_NONE: 'JWT uses alg "none" (unsigned token)',
+  JWT_EXPIRED: (expiredAt: string) => `JWT expired at ${expiredAt}`,
+  LOOKS_LIKE_PAN: (brand: string) =>
+    `Looks like a payment card number (${brand})`,
 } as const;
 
 // ============================================================================
@@ -382,6 +780,9 @@ export const VALIDATION_SUGGESTIONS = {
   WRONG_CREDENTIAL_TYPE:
     "Ensure you are passing a token, not a password or username",
   LOW_ENTROPY: "Verify this is a real token and not a test string",
+  JWT_ALG_NONE: "Reject unsigned JWTs and require a signing algorithm",
+  JWT_EXPIRED: "Refresh the token or check the issuer's clock",
+  LOOKS_LIKE_PAN: "Mask card numbers with mode: 'pan' (PCI-DSS 3.4)",
 } as const;
 
 // ============================================================================
@@ -405,6 +806,11 @@ export const PACKAGE_NAME = "mask-token";
  */
 export const USER_AGENT = `${PACKAGE_NAME}/${VERSION}`;
 
+/**
+ * Project homepage (reported as the tool URL in SARIF output)
+ */
+export const REPOSITORY_URL = "https://github.com/ekaone/mask-token";
+
 // ============================================================================
 // FEATURE FLAGS (for future use)
 // ============================================================================
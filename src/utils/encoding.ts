@@ -0,0 +1,176 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Encoding helpers shared by token decoders
+ *
+ * @module utils/encoding
+ */
+
+import { BASE32_ALPHABET, BASE62_ALPHABET } from "./constants";
+
+// ============================================================================
+// BASE64URL
+// ============================================================================
+
+/**
+ * Decode a base64url (or base64) string to bytes
+ *
+ * Padding is optional. Works in Node.js and browsers.
+ *
+ * @param input - Encoded string
+ * @returns Decoded bytes, or null if the input is not valid base64url
+ *
+ * @example
+ * ```typescript
+ * decodeBase64UrlBytes('aGk'); // → Uint8Array [104, 105]
+ * decodeBase64UrlBytes('a$b'); // → null
+ * ```
+ */
+export function decodeBase64UrlBytes(input: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_\-+/]*={0,2}$/.test(input) || input.length % 4 === 1) {
+    return null;
+  }
+
+  const base64 = input.replace(/=+$/, "").replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+
+  try {
+    const binary = atob(padded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode a base64url (or base64) string as UTF-8 text
+ *
+ * @param input - Encoded string
+ * @returns Decoded text, or null if the input is not valid base64url or UTF-8
+ *
+ * @example
+ * ```typescript
+ * decodeBase64Url('eyJhbGciOiJIUzI1NiJ9'); // → '{"alg":"HS256"}'
+ * ```
+ */
+export function decodeBase64Url(input: string): string | null {
+  const bytes = decodeBase64UrlBytes(input);
+  if (!bytes) {
+    return null;
+  }
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encode bytes as base64url without padding
+ *
+ * Works in Node.js and browsers.
+ *
+ * @param bytes - Bytes to encode
+ * @returns Base64url string
+ *
+ * @example
+ * ```typescript
+ * encodeBase64Url(new Uint8Array([104, 105])); // → 'aGk'
+ * ```
+ */
+export function encodeBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+// ============================================================================
+// BASE62
+// ============================================================================
+
+/**
+ * Decode a base62 string (`0-9A-Za-z`) to big-endian bytes
+ *
+ * Uses byte-array arithmetic, so arbitrarily long inputs decode without
+ * BigInt. Leading `0` characters become leading zero bytes.
+ *
+ * @param input - Encoded string
+ * @returns Decoded bytes, or null if the input has non-base62 characters
+ *
+ * @example
+ * ```typescript
+ * decodeBase62('p9AA'); // → Uint8Array [0xba, 0x01, 0x02]
+ * ```
+ */
+export function decodeBase62(input: string): Uint8Array | null {
+  const bytes: number[] = [];
+
+  for (const char of input) {
+    let carry = BASE62_ALPHABET.indexOf(char);
+    if (carry < 0) {
+      return null;
+    }
+
+    for (let i = bytes.length - 1; i >= 0; i--) {
+      carry += bytes[i] * 62;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.unshift(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Leading zero digits carry no value; keep them as zero bytes
+  let leadingZeros = 0;
+  while (input[leadingZeros] === BASE62_ALPHABET[0]) {
+    leadingZeros++;
+  }
+
+  const result = new Uint8Array(leadingZeros + bytes.length);
+  result.set(bytes, leadingZeros);
+  return result;
+}
+
+// ============================================================================
+// BASE32
+// ============================================================================
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding
+ *
+ * @param bytes - Bytes to encode
+ * @returns Base32 string
+ *
+ * @example
+ * ```typescript
+ * encodeBase32(new TextEncoder().encode('foobar')); // → 'MZXW6YTBOI'
+ * ```
+ */
+export function encodeBase32(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
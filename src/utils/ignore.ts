@@ -0,0 +1,202 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Ignore file matching
+ *
+ * Parses `.gitignore`-style files (`.gitignore`, `.masktokenignore`)
+ * and matches paths against them: comments, negation (`!`), anchoring
+ * (`/` prefix or inner `/`), directory-only patterns (trailing `/`),
+ * `*`, `?`, `**` and character classes.
+ *
+ * @module utils/ignore
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A single parsed ignore pattern
+ *
+ * @internal
+ */
+export interface IgnoreRule {
+  /**
+   * Directory the ignore file lives in (patterns are relative to it)
+   */
+  base: string;
+
+  /**
+   * Compiled pattern, tested against the path relative to `base`
+   */
+  regex: RegExp;
+
+  /**
+   * `!pattern`: re-include paths ignored by earlier rules
+   */
+  negate: boolean;
+
+  /**
+   * `pattern/`: only matches directories
+   */
+  dirOnly: boolean;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse the content of an ignore file
+ *
+ * @param content - File content
+ * @param base - Directory of the ignore file, with `/` separators
+ * @returns Rules in file order
+ *
+ * @example
+ * ```typescript
+ * parseIgnoreFile('dist/\n*.log\n!keep.log\n', '/repo');
+ * // [{ base: '/repo', negate: false, dirOnly: true, ... }, ...]
+ * ```
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const raw of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let pattern = raw.replace(/(?<!\\)\s+$/, "");
+    if (pattern === "" || pattern.startsWith("#")) {
+      continue;
+    }
+
+    const negate = pattern.startsWith("!");
+    if (negate) {
+      pattern = pattern.slice(1);
+    } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+      pattern = pattern.slice(1);
+    }
+
+    const dirOnly = pattern.endsWith("/");
+    if (dirOnly) {
+      pattern = pattern.replace(/\/+$/, "");
+    }
+
+    // A slash anywhere but at the end anchors the pattern to `base`
+    const anchored = pattern.includes("/");
+    pattern = pattern.replace(/^\//, "");
+    if (pattern === "") {
+      continue;
+    }
+
+    const body = globToRegex(pattern);
+    rules.push({
+      base,
+      regex: new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`),
+      negate,
+      dirOnly,
+    });
+  }
+
+  return rules;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Check whether a path is ignored
+ *
+ * The last matching rule wins, so a later `!pattern` re-includes a path.
+ *
+ * @param path - Absolute path with `/` separators
+ * @param isDirectory - Whether the path is a directory
+ * @param rules - Rules from every applicable ignore file, outermost first
+ * @returns true if the path is ignored
+ *
+ * @example
+ * ```typescript
+ * isIgnored('/repo/dist', true, parseIgnoreFile('dist/', '/repo')); // true
+ * ```
+ */
+export function isIgnored(
+  path: string,
+  isDirectory: boolean,
+  rules: readonly IgnoreRule[],
+): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) {
+      continue;
+    }
+
+    const prefix = rule.base.endsWith("/") ? rule.base : `${rule.base}/`;
+    if (!path.startsWith(prefix)) {
+      continue;
+    }
+
+    if (rule.regex.test(path.slice(prefix.length))) {
+      ignored = !rule.negate;
+    }
+  }
+
+  return ignored;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Translate a glob pattern into a regex source
+ *
+ * @internal
+ */
+function globToRegex(pattern: string): string {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "\\" && i + 1 < pattern.length) {
+      source += escapeRegex(pattern[++i]);
+    } else if (char === "*" && pattern[i + 1] === "*") {
+      const slashBefore = i === 0 || pattern[i - 1] === "/";
+      const slashAfter = pattern[i + 2] === "/";
+      if (slashBefore && slashAfter) {
+        source += "(?:.*/)?"; // `**/`: zero or more directories
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      const content = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+      source += `[${content.replace(/^!/, "^")}]`;
+      i = end;
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Escape a character for use in a regex
+ *
+ * @internal
+ */
+function escapeRegex(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
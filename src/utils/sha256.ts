@@ -0,0 +1,191 @@
+/**
+ * mask-token - Secure token masking with NIST/PCI-DSS/OWASP compliance
+ *
+ * Synchronous SHA-256 and HMAC-SHA256 (FIPS 180-4, RFC 2104)
+ *
+ * WebCrypto only hashes asynchronously, so the synchronous APIs
+ * (`maskToken()` fingerprints, `Secret#equals()`) use this
+ * implementation to run in every runtime without `node:crypto`.
+ *
+ * @module utils/sha256
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Round constants: first 32 bits of the fractional parts of the cube
+ * roots of the first 64 primes
+ */
+const K: readonly number[] = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+/**
+ * Initial hash value: first 32 bits of the fractional parts of the
+ * square roots of the first 8 primes
+ */
+const H0: readonly number[] = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+];
+
+/**
+ * SHA-256 block size in bytes (also the HMAC key block size)
+ */
+const BLOCK_SIZE = 64;
+
+// ============================================================================
+// HASH FUNCTIONS
+// ============================================================================
+
+/**
+ * Compute the SHA-256 digest of bytes or a string's UTF-8 bytes
+ *
+ * @param input - Data to hash
+ * @returns 32-byte digest
+ *
+ * @example
+ * ```typescript
+ * sha256('abc'); // → Uint8Array [0xba, 0x78, 0x16, 0xbf, ...]
+ * ```
+ */
+export function sha256(input: string | Uint8Array): Uint8Array {
+  const data = toBytes(input);
+  const bitLength = data.length * 8;
+
+  // Message, 0x80, zero padding, then the 64-bit big-endian bit length
+  const padded = new Uint8Array(
+    Math.ceil((data.length + 9) / BLOCK_SIZE) * BLOCK_SIZE,
+  );
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+
+  const hash = [...H0];
+  const w = new Array<number>(64);
+
+  for (let block = 0; block < padded.length; block += BLOCK_SIZE) {
+    for (let t = 0; t < 16; t++) {
+      w[t] = view.getUint32(block + t * 4);
+    }
+    for (let t = 16; t < 64; t++) {
+      const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+      const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+      w[t] = (w[t - 16] + s0 + w[t - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let t = 0; t < 64; t++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + ch + K[t] + w[t]) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + maj) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    hash[0] = (hash[0] + a) | 0;
+    hash[1] = (hash[1] + b) | 0;
+    hash[2] = (hash[2] + c) | 0;
+    hash[3] = (hash[3] + d) | 0;
+    hash[4] = (hash[4] + e) | 0;
+    hash[5] = (hash[5] + f) | 0;
+    hash[6] = (hash[6] + g) | 0;
+    hash[7] = (hash[7] + h) | 0;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((word, i) => digestView.setUint32(i * 4, word >>> 0));
+  return digest;
+}
+
+/**
+ * Compute the HMAC-SHA256 of a message
+ *
+ * @param key - HMAC key (strings are UTF-8 encoded)
+ * @param message - Message to authenticate (strings are UTF-8 encoded)
+ * @returns 32-byte MAC
+ *
+ * @example
+ * ```typescript
+ * hmacSha256('key', 'The quick brown fox jumps over the lazy dog');
+ * // → Uint8Array [0xf7, 0xbc, 0x83, 0xf4, ...]
+ * ```
+ */
+export function hmacSha256(
+  key: string | Uint8Array,
+  message: string | Uint8Array,
+): Uint8Array {
+  let keyBytes = toBytes(key);
+  if (keyBytes.length > BLOCK_SIZE) {
+    keyBytes = sha256(keyBytes);
+  }
+
+  const inner = new Uint8Array(BLOCK_SIZE);
+  const outer = new Uint8Array(BLOCK_SIZE);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    const byte = keyBytes[i] ?? 0;
+    inner[i] = byte ^ 0x36;
+    outer[i] = byte ^ 0x5c;
+  }
+
+  return sha256(concat(outer, sha256(concat(inner, toBytes(message)))));
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Rotate a 32-bit word right
+ *
+ * @internal
+ */
+function rotr(word: number, bits: number): number {
+  return (word >>> bits) | (word << (32 - bits));
+}
+
+/**
+ * Input as bytes (strings are UTF-8 encoded)
+ *
+ * @internal
+ */
+function toBytes(input: string | Uint8Array): Uint8Array {
+  return typeof input === "string" ? new TextEncoder().encode(input) : input;
+}
+
+/**
+ * Concatenate two byte arrays
+ *
+ * @internal
+ */
+function concat(first: Uint8Array, second: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(first.length + second.length);
+  bytes.set(first);
+  bytes.set(second, first.length);
+  return bytes;
+}
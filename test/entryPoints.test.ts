@@ -0,0 +1,54 @@
+// entryPoints.test.ts
+
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import * as main from "../src/index";
+import * as node from "../src/node";
+
+const SRC = resolve(__dirname, "../src");
+const IMPORT_PATTERN = /^(?:import|export)\b[^;"=(]*?"([^"]+)"/gm;
+
+// Static imports reachable from an entry, skipping type-only ones
+function importGraph(entry: string): string[] {
+  const seen = new Set<string>();
+  const specifiers = new Set<string>();
+  const visit = (file: string) => {
+    if (seen.has(file)) return;
+    seen.add(file);
+
+    for (const match of readFileSync(file, "utf8").matchAll(IMPORT_PATTERN)) {
+      if (/^(?:import|export) type\b/.test(match[0])) continue;
+      const specifier = match[1];
+      specifiers.add(specifier);
+      if (specifier.startsWith(".")) {
+        const target = join(dirname(file), specifier);
+        visit(target.endsWith("types") ? join(target, "index.ts") : `${target}.ts`);
+      }
+    }
+  };
+
+  visit(join(SRC, entry));
+  return [...specifiers];
+}
+
+describe("entry points", () => {
+  it("keeps Node built-ins out of the main entry", () => {
+    expect(importGraph("index.ts").filter((s) => s.startsWith("node:"))).toEqual([]);
+  });
+
+  it("exports the Node-only features from mask-token/node", () => {
+    for (const name of [
+      "createRedactionStream",
+      "installConsoleGuard",
+      "createFileVaultStorage",
+      "scanPaths",
+      "scanStagedChanges",
+      "scanCommitRange",
+      "runCli",
+    ]) {
+      expect(node).toHaveProperty(name);
+      expect(main).not.toHaveProperty(name);
+    }
+  });
+});
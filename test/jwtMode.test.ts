@@ -0,0 +1,96 @@
+// jwtMode.test.ts
+
+import { describe, it, expect } from "vitest";
+import { maskToken, validateToken } from "../src/index";
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const makeJwt = (
+  header: object,
+  payload: object,
+  signature = "dozjgNryP4J3jVmNHl0w5N_XgL0n3I9PlFUP0THsR8U",
+) => `${encode(header)}.${encode(payload)}.${signature}`;
+
+const FUTURE = 4102444800; // 2100-01-01T00:00:00Z
+const PAST = 1577836800; // 2020-01-01T00:00:00Z
+
+const JWT = makeJwt(
+  { alg: "HS256", typ: "JWT", kid: "key-1" },
+  {
+    sub: "1234567890",
+    email: "jane@example.com",
+    iss: "https://auth.example.com",
+    aud: ["api", "web"],
+    iat: 1516239022,
+    exp: FUTURE,
+  },
+);
+
+describe("Claims-aware JWT mode", () => {
+  it("summarises safe claims and fully masks the signature", () => {
+    expect(maskToken(JWT, { mode: "jwt" })).toBe(
+      '{"alg":"HS256","typ":"JWT","kid":"key-1"}.' +
+        '{"iss":"https://auth.example.com","aud":["api","web"],' +
+        '"iat":"2018-01-18T01:30:22Z","exp":"2100-01-01T00:00:00Z"}.' +
+        "••••••••",
+    );
+  });
+
+  it("returns the redacted structure in metadata", () => {
+    const result = maskToken(JWT, { mode: "jwt", includeMetadata: true });
+
+    expect(result.metadata.jwt).toEqual({
+      header: { alg: "HS256", typ: "JWT", kid: "key-1" },
+      payload: {
+        sub: "••••••••7890",
+        email: "••••••••.com",
+        iss: "https://auth.example.com",
+        aud: ["api", "web"],
+        iat: 1516239022,
+        exp: FUTURE,
+      },
+      expired: false,
+    });
+    expect(result.validation.valid).toBe(true);
+  });
+
+  it("applies allow and deny lists", () => {
+    const result = maskToken(JWT, {
+      mode: "jwt",
+      includeMetadata: true,
+      jwt: { allowClaims: ["alg", "sub"], denyClaims: ["email", "sub"] },
+    });
+
+    expect(result.masked).toBe('{"alg":"HS256"}.{}.••••••••');
+    expect(result.metadata.jwt?.payload).not.toHaveProperty("email");
+    expect(result.metadata.jwt?.payload).not.toHaveProperty("sub");
+    expect(result.metadata.jwt?.payload.iss).toBe("••••••••.com");
+  });
+
+  it("flags alg none and expired tokens", () => {
+    const jwt = makeJwt({ alg: "none" }, { sub: "1234567890", exp: PAST }, "");
+    const result = maskToken(jwt, { mode: "jwt", includeMetadata: true });
+
+    expect(result.masked).toBe('{"alg":"none"}.{"exp":"2020-01-01T00:00:00Z"}.');
+    expect(result.metadata.jwt?.expired).toBe(true);
+    expect(result.validation.valid).toBe(false);
+    expect(result.validation.warnings).toEqual([
+      'JWT uses alg "none" (unsigned token)',
+      "JWT expired at 2020-01-01T00:00:00Z",
+    ]);
+  });
+
+  it("reports JWT warnings from validateToken", () => {
+    const jwt = makeJwt({ alg: "HS256" }, { sub: "1234567890", exp: PAST });
+    expect(validateToken(jwt).warnings).toContain(
+      "JWT expired at 2020-01-01T00:00:00Z",
+    );
+  });
+
+  it("falls back to segment masking when the JWT cannot be decoded", () => {
+    expect(maskToken("eyJhbGciOi.eyJzdWIiOi.SflKxwRJ", { mode: "jwt" })).toBe(
+      "eyJ•••.eyJ•••.Sfl•••",
+    );
+  });
+});
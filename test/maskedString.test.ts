@@ -0,0 +1,86 @@
+// maskedString.test.ts
+
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { isMasked, maskToken, presets, redactObject, Secret } from "../src/index";
+import type { MaskedString } from "../src/index";
+
+const NPM_TOKEN = "npm_a1b2c3d4e5f6g7h8i9j0";
+
+describe("isMasked", () => {
+  it("recognises output made with each predefined mask character", () => {
+    ["•", "*", "×", "─"].forEach((maskChar) => {
+      expect(isMasked(maskToken(NPM_TOKEN, { maskChar }))).toBe(true);
+    });
+    expect(isMasked(maskToken(NPM_TOKEN, { fingerprint: { key: "k" } }))).toBe(true);
+  });
+
+  it("checks clear characters against the options used to mask", () => {
+    const masked = presets.balanced(NPM_TOKEN);
+
+    expect(isMasked(masked)).toBe(false);
+    expect(isMasked(masked, { preset: "balanced" })).toBe(true);
+    expect(isMasked("••••••••i9j0", { showTail: 2 })).toBe(false);
+  });
+
+  it("recognises custom mask characters when told about them", () => {
+    const masked = maskToken(NPM_TOKEN, { maskChar: "█" });
+
+    expect(isMasked(masked)).toBe(false);
+    expect(isMasked(masked, "█")).toBe(true);
+    expect(isMasked(maskToken(NPM_TOKEN, { maskChar: "<?>" }), "<?>")).toBe(true);
+  });
+
+  it("rejects raw tokens and alphanumeric mask characters", () => {
+    expect(isMasked(NPM_TOKEN)).toBe(false);
+    expect(isMasked("pass**word")).toBe(false);
+    expect(isMasked("pass****word")).toBe(false);
+    expect(isMasked("correct****horse-battery-staple")).toBe(false);
+    expect(isMasked("npm_••••••••i9j0••••")).toBe(false);
+    expect(isMasked(maskToken(NPM_TOKEN, { maskChar: "x" }), "x")).toBe(false);
+    expect(isMasked(42)).toBe(false);
+  });
+});
+
+describe("already-masked input", () => {
+  it("is returned unchanged instead of being masked twice", () => {
+    const masked = maskToken(NPM_TOKEN);
+
+    expect(maskToken(masked)).toBe(masked);
+    expect(presets.strict(masked)).toBe(masked);
+    expect(maskToken(masked, { fingerprint: { key: "k" } })).toBe(masked);
+    expect(redactObject({ token: masked })).toEqual({ token: masked });
+  });
+
+  it("is reported as alreadyMasked in the result", () => {
+    const masked = maskToken(NPM_TOKEN, { maskChar: "█" });
+
+    expect(maskToken(masked, { maskChar: "█", includeMetadata: true })).toMatchObject({
+      masked,
+      alreadyMasked: true,
+    });
+    expect(maskToken(NPM_TOKEN, { includeMetadata: true }).alreadyMasked).toBe(false);
+  });
+
+  it("is only recognised when the whole string is mask output", () => {
+    const url = "postgres://app:****@db:5432/app?password=Sup3rS3cretValue";
+    const password = "correct****horse-battery-staple";
+
+    expect(maskToken(url, { mode: "url" })).not.toContain("Sup3rS3cretValue");
+    expect(redactObject({ password })).toEqual({ password: "••••••••aple" });
+    expect(String(new Secret("pass****word-and-more"))).not.toContain("pass****");
+    expect(maskToken(password, { includeMetadata: true }).alreadyMasked).toBe(false);
+  });
+});
+
+describe("MaskedString", () => {
+  it("is returned by maskToken and narrowed by isMasked", () => {
+    expectTypeOf(maskToken(NPM_TOKEN)).toEqualTypeOf<MaskedString>();
+    expectTypeOf(maskToken(NPM_TOKEN, { includeMetadata: true }).masked).toEqualTypeOf<MaskedString>();
+    expectTypeOf<string>().not.toMatchTypeOf<MaskedString>();
+
+    const value: string = maskToken(NPM_TOKEN);
+    if (isMasked(value)) {
+      expectTypeOf(value).toEqualTypeOf<MaskedString>();
+    }
+  });
+});
@@ -0,0 +1,78 @@
+// panMode.test.ts
+
+import { describe, it, expect } from "vitest";
+import { detectTokenType, maskToken, validateToken } from "../src/index";
+import { detectCardBrand, luhnCheck } from "../src/utils/card";
+
+describe("Card helpers", () => {
+  it("validates with Luhn", () => {
+    expect(luhnCheck("4111111111111111")).toBe(true);
+    expect(luhnCheck("4111111111111112")).toBe(false);
+  });
+
+  const brands: Array<[string, string]> = [
+    ["4111111111111111", "Visa"],
+    ["5555555555554444", "Mastercard"],
+    ["2223003122003222", "Mastercard"],
+    ["378282246310005", "American Express"],
+    ["6011111111111117", "Discover"],
+    ["3530111333300000", "JCB"],
+    ["36227206271667", "Diners Club"],
+    ["6200000000000005", "UnionPay"],
+  ];
+
+  brands.forEach(([digits, brand]) => {
+    it(`identifies ${brand}`, () => {
+      expect(detectCardBrand(digits)).toBe(brand);
+    });
+  });
+});
+
+describe("pan mode", () => {
+  it("shows BIN and last 4 and keeps the grouping", () => {
+    expect(maskToken("4111 1111 1111 1111", { mode: "pan" })).toBe(
+      "4111 11•• •••• 1111",
+    );
+    expect(maskToken("3782-822463-10005", { mode: "pan" })).toBe(
+      "3782-82••••-•0005",
+    );
+    expect(maskToken("5555555555554444", { mode: "pan", maskChar: "*" })).toBe(
+      "555555******4444",
+    );
+  });
+
+  it("can show the last 4 digits only", () => {
+    expect(
+      maskToken("4111 1111 1111 1111", { mode: "pan", pan: { showBin: false } }),
+    ).toBe("•••• •••• •••• 1111");
+  });
+
+  it("falls back to standard masking for numbers that fail Luhn", () => {
+    expect(maskToken("4111 1111 1111 1112", { mode: "pan" })).toBe(
+      maskToken("4111 1111 1111 1112", { mode: "standard" }),
+    );
+  });
+});
+
+describe("PAN detection", () => {
+  it("reports the card brand", () => {
+    expect(detectTokenType("4111-1111-1111-1111")).toMatchObject({
+      type: "Payment Card Number",
+      prefix: null,
+      brand: "Visa",
+    });
+    expect(detectTokenType("4111111111111112").type).not.toBe(
+      "Payment Card Number",
+    );
+  });
+
+  it("warns when a token is actually a PAN", () => {
+    const result = validateToken("5555555555554444");
+    expect(result.warnings).toContain(
+      "Looks like a payment card number (Mastercard)",
+    );
+    expect(result.suggestions).toContain(
+      "Mask card numbers with mode: 'pan' (PCI-DSS 3.4)",
+    );
+  });
+});
@@ -0,0 +1,61 @@
+// secret.test.ts
+
+import { describe, it, expect } from "vitest";
+import { inspect } from "node:util";
+import { Secret, maskToken, redactObject } from "../src/index";
+
+const NPM_TOKEN = "npm_a1b2c3d4e5f6g7h8i9j0";
+
+describe("Secret", () => {
+  it("masks itself in every text conversion", () => {
+    const secret = new Secret(NPM_TOKEN);
+    const masked = "npm_••••••••i9j0";
+
+    expect(String(secret)).toBe(masked);
+    expect(`${secret}`).toBe(masked);
+    expect("token: " + secret).toBe(`token: ${masked}`);
+    expect(JSON.stringify({ token: secret })).toBe(`{"token":"${masked}"}`);
+    expect(inspect({ token: secret })).toBe(`{ token: ${masked} }`);
+  });
+
+  it("keeps the raw value out of properties and spreads", () => {
+    const secret = new Secret(NPM_TOKEN);
+
+    expect(JSON.stringify(Object.entries({ ...secret }))).not.toContain("a1b2");
+    expect(inspect(secret, { showHidden: true, depth: 5 })).not.toContain("a1b2");
+    expect(Object.isFrozen(secret)).toBe(true);
+    expect(secret.reveal()).toBe(NPM_TOKEN);
+  });
+
+  it("uses the configured preset and carries token metadata", () => {
+    const secret = new Secret(NPM_TOKEN, { preset: "strict", warnIfPlain: false });
+
+    expect(secret.masked).toBe(maskToken(NPM_TOKEN, { preset: "strict", warnIfPlain: false }));
+    expect(secret.metadata).toMatchObject({ type: "NPM Token", prefix: "npm_" });
+  });
+
+  it("masks non-string values in their JSON form", () => {
+    const secret = new Secret({ user: "svc", password: "hunter2-correct-horse" });
+
+    expect(String(secret)).not.toContain("hunter2");
+    expect(secret.reveal().password).toBe("hunter2-correct-horse");
+  });
+
+  it("compares raw values", () => {
+    const secret = new Secret(NPM_TOKEN);
+
+    expect(secret.equals(NPM_TOKEN)).toBe(true);
+    expect(secret.equals(new Secret(NPM_TOKEN, { maskChar: "*" }))).toBe(true);
+    expect(secret.equals(NPM_TOKEN.slice(0, -1))).toBe(false);
+    expect(secret.equals("")).toBe(false);
+  });
+
+  it("is replaced by its masked form in redactObject", () => {
+    const config = { host: "db", auth: { dsn: new Secret("s3cr3t-p4ssw0rd-value") } };
+
+    expect(redactObject(config)).toEqual({
+      host: "db",
+      auth: { dsn: "••••••••alue" },
+    });
+  });
+});
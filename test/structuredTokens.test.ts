@@ -0,0 +1,86 @@
+// structuredTokens.test.ts
+
+import { describe, it, expect } from "vitest";
+import { detectTokenType, maskToken, redactText } from "../src/index";
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const JWE = [
+  encode({ alg: "RSA-OAEP", enc: "A256GCM", kid: "key-1" }),
+  "OKOawDo13gRp2ojaHV7LFpZcgV7T6DVZKTyKOMTYUmKoTCVJRgckCL9kiMT03JGe",
+  "48V1_ALb6US04U3b",
+  "5eym8TW_c8SuK0ltJ3rpYIzOeDQz7TALvtu6UG9oMo4vpzs9tX_EFShS8iB7j6ji",
+  "XFBoMYUZodetZdvTiFvSkQ",
+].join(".");
+
+const PASETO_LOCAL =
+  "v4.local.QAxIpVe-ECVNI1z4xQbm_qQYomyT3h8FtV8bxkz8pBJWkT8f7HtlOpbroPDEZUKop_vaglyp76CzYy375cHmKCW8e1CCkV0Lflu4GTDyXMqQdpZMM1E6OaoQW27gaRSvWBrR3IgbFIa0AkuUFw";
+const PASETO_PUBLIC = "v4.public.eyJzdWIiOiJqb2huZG9lIn0bg_XBBzds8lTZShVlwwKSgeKpLT3yukTw6JUz3W4h_ExsQV-P0V54zemZDcAxFaSeef1QlXEFtkqxT1ciiQEDA.eyJraWQiOiJrZXktMSJ9";
+
+// Branca specification test vector ("Hello world!")
+const BRANCA =
+  "875GH233T7IYrxtgXxlQBYiFobZMQdHAT51vChKsAIYCFxZtL1evV54vYqLyZtQ0ekPHt8kJHQp0a";
+
+describe("Structured token detection", () => {
+  const cases: Array<[string, string, string | null]> = [
+    [JWE, "JSON Web Encryption (JWE)", null],
+    [PASETO_LOCAL, "PASETO Local Token", "v4.local."],
+    [PASETO_PUBLIC, "PASETO Public Token", "v4.public."],
+    [BRANCA, "Branca Token", null],
+  ];
+
+  cases.forEach(([token, type, prefix]) => {
+    it(`detects ${type}`, () => {
+      expect(detectTokenType(token)).toMatchObject({ type, prefix });
+    });
+  });
+
+  it("does not treat arbitrary base62 or dotted strings as structured tokens", () => {
+    expect(detectTokenType("A".repeat(70)).type).not.toBe("Branca Token");
+    expect(detectTokenType("eyJa.b.c.d.e").type).not.toBe(
+      "JSON Web Encryption (JWE)",
+    );
+  });
+});
+
+describe("Structured token masking", () => {
+  it("shows the JWE header and masks every encrypted part", () => {
+    expect(maskToken(JWE)).toBe(
+      '{"alg":"RSA-OAEP","enc":"A256GCM","kid":"key-1"}.' +
+        "••••••••.••••••••.••••••••.••••••••",
+    );
+    expect(maskToken(JWE, { mode: "jwt" })).toBe(maskToken(JWE));
+  });
+
+  it("keeps empty JWE parts empty", () => {
+    const direct = JWE.replace(/\.[^.]+/, ".");
+    expect(maskToken(direct)).toMatch(/\.\.••••••••\.••••••••\.••••••••$/);
+  });
+
+  it("keeps the PASETO version and purpose and hides the payload", () => {
+    expect(maskToken(PASETO_LOCAL)).toBe("v4.local.••••••••");
+    expect(maskToken(PASETO_PUBLIC, { mode: "jwt" })).toBe("v4.public.••••••••");
+  });
+
+  it("shows the PASETO footer on request", () => {
+    expect(maskToken(PASETO_PUBLIC, { segments: { showFooter: true } })).toBe(
+      "v4.public.••••••••.eyJraWQiOiJrZXktMSJ9",
+    );
+  });
+
+  it("masks Branca tokens apart from the tail", () => {
+    expect(maskToken(BRANCA, { showHead: 4 })).toBe("••••••••Qp0a");
+  });
+
+  it("keeps standard mode unchanged", () => {
+    expect(maskToken(PASETO_LOCAL, { mode: "standard" })).toBe(
+      `v4.local.••••••••${PASETO_LOCAL.slice(-4)}`,
+    );
+  });
+
+  it("redacts structured tokens in free text", () => {
+    const { text } = redactText(`session=${PASETO_LOCAL} ok`);
+    expect(text).toBe("session=v4.local.•••••••• ok");
+  });
+});
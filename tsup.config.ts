@@ -1,9 +1,10 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/node.ts", "src/cli.ts"],
   format: ["cjs", "esm"],
   dts: true,
   clean: true,
+  splitting: true, // share one prefix registry between the entries in CJS too
   minify: true, // esbuild
 });